@@ -0,0 +1,45 @@
+import checkMembership, { Item } from "./recipe"
+
+const beltTiers = ["yellow", "red", "blue"] as const
+/** Transport belt, fast transport belt and express transport belt */
+export type BeltTier = (typeof beltTiers)[number]
+export const allBeltTiers: readonly BeltTier[] = beltTiers
+export const isBeltTier = checkMembership(beltTiers)
+
+/** Items per second a full belt carries, both lanes together */
+const beltThroughput: Record<BeltTier, number> = {
+  yellow: 15,
+  red: 30,
+  blue: 45,
+}
+
+/**
+ * Fluid per second a pump moves. Pipes carry as much over short runs and
+ * less over long ones, so fluids are sized in pumps.
+ */
+const PUMP_THROUGHPUT = 1200
+
+export const DEFAULT_BELT_TIER: BeltTier = "yellow"
+
+const numberFormat = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+})
+
+export function beltTierName(tier: BeltTier) {
+  switch (tier) {
+    case "yellow":
+      return "Yellow belts"
+    case "red":
+      return "Red belts"
+    case "blue":
+      return "Blue belts"
+  }
+}
+
+/** Belts of the tier it takes to carry the amount, pumps for fluids */
+export function throughputText(item: Item, amount: number, tier: BeltTier) {
+  if (item.type === "fluid") {
+    return `${numberFormat.format(amount / PUMP_THROUGHPUT)} pumps`
+  }
+  return `${numberFormat.format(amount / beltThroughput[tier])} ${tier} belts`
+}
@@ -0,0 +1,37 @@
+import { RecipeGraph, busInputs } from "./graph"
+import { panelRow } from "./panel-row"
+import { t } from "./recipe"
+
+const numberFormat = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+})
+
+export type BusPanelProps = {
+  panel: HTMLElement
+}
+
+/** Lists supplied items the plan takes from the bus and how much of each */
+export function initBusPanel({ panel }: BusPanelProps) {
+  const list = panel.querySelector(".panel-list") as HTMLUListElement
+  let controller: AbortController | undefined
+
+  return {
+    update(graph: RecipeGraph) {
+      controller?.abort()
+      const signal = (controller = new AbortController()).signal
+
+      const inputs = busInputs(graph)
+      panel.hidden = inputs.length === 0
+      list.replaceChildren(
+        ...inputs.map(input =>
+          panelRow(
+            input,
+            t(input.name) ?? input.name,
+            `${numberFormat.format(input.amount)}/s`,
+            signal,
+          ),
+        ),
+      )
+    },
+  }
+}
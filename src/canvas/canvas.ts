@@ -8,13 +8,18 @@ import {
   computeFont,
 } from "./common"
 import * as layout from "./layout"
+import { BeltTier, DEFAULT_BELT_TIER, throughputText } from "../belts"
 import {
   Action,
   NodeID,
   RecipeGraph,
   RecipeNode,
   canMerge,
+  canUnmerge,
+  edgeFlow,
   emptyGraph,
+  isFeedbackEdge,
+  isSupplied,
 } from "../graph"
 
 type ExistingExternalElement = ExternalElement & { element: HTMLElement }
@@ -34,6 +39,7 @@ type VisualNode = Offset2D & {
 type CanvasOutEvent = Action
 type CanvasInEvent =
   | { type: "update-graph"; graph: RecipeGraph }
+  | { type: "set-belt-tier"; tier: BeltTier }
   | { type: "deinit" }
 
 const LEVEL_OFFSET = 50
@@ -54,6 +60,19 @@ const MAX_SCALE = 2
 const MIN_SCALE = 0.25
 const LINE_WIDTH = 10
 const LINE_COLOR = "#888888"
+const FEEDBACK_LINE_COLOR = "#b08850"
+const FEEDBACK_LINE_DASH = [2, 1]
+const FEEDBACK_EDGE_BULGE = 80
+
+const EDGE_LABEL_FONT = { family: "sans-serif", size: 12, weight: 600 }
+const EDGE_LABEL_COLOR = "#ddd"
+const EDGE_LABEL_BG = "#1f1f1fd0"
+const EDGE_LABEL_PADDING = 3
+const EDGE_LABEL_LINE_HEIGHT = 16
+
+const rateFormat = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+})
 
 const MERGE_OVERLAY_COLOR = "#6fc6ff80"
 const MERGE_BORDER_COLOR = "#6fc6ff"
@@ -69,6 +88,7 @@ type DrawIconArgs = {
 }
 
 type InteractiveRegion = {
+  node: NodeID
   interactivity: Interactivity
   layout: Rect
 }
@@ -129,14 +149,43 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     Record<string, ExistingExternalElement>
   >()
   let elementInFocus: [node: NodeID, elementKey: string] | undefined = undefined
+  /** Draft value of the input element in focus, if that element is an input */
+  let valueInFocus: string | undefined = undefined
   let globalOffset = { dx: 0, dy: 0 }
   let scale = 1
 
   let nodeToMergeWith: NodeID | undefined = undefined
 
+  let beltTier = DEFAULT_BELT_TIER
+  /** Lines of every edge's label, by the consumer and then the supplier */
+  let edgeLabels = new Map<NodeID, Map<NodeID, string[]>>()
+
+  function updateEdgeLabels() {
+    edgeLabels = new Map()
+    for (const [from, toVertices] of graph.downEdges) {
+      const labels = new Map<NodeID, string[]>()
+      for (const to of toVertices) {
+        labels.set(
+          to,
+          edgeFlow(graph, from, to).map(
+            item =>
+              `${rateFormat.format(item.amount)}/s · ${throughputText(
+                item,
+                item.amount,
+                beltTier,
+              )}`,
+          ),
+        )
+      }
+      edgeLabels.set(from, labels)
+    }
+  }
+
   function draw() {
     ctx.clearRect(0, 0, cssWidth, cssHeight)
 
+    const labels: { x: number; y: number; lines: string[] }[] = []
+
     for (const [fromVertex, toVertices] of graph.downEdges) {
       const fromBox = nodes.get(fromVertex)
       if (!fromBox) {
@@ -153,6 +202,12 @@ export function initCanvas(canvas: HTMLCanvasElement) {
           console.warn("Missing node for vertex", toVertex)
           continue
         }
+        const lines = edgeLabels.get(fromVertex)?.get(toVertex) ?? []
+        if (isFeedbackEdge(graph, fromVertex, toVertex)) {
+          const bulge = drawFeedbackEdge(fromBox, toBox)
+          labels.push({ ...bulge, lines })
+          continue
+        }
         const end = {
           x: (globalOffset.dx + toBox.dx + toBox.bbox.width / 2) * scale,
           y: (globalOffset.dy + toBox.dy + toBox.bbox.height / 2) * scale,
@@ -163,9 +218,17 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         ctx.strokeStyle = LINE_COLOR
         ctx.lineTo(end.x, end.y)
         ctx.stroke()
+        labels.push({
+          x: (start.x + end.x) / 2,
+          y: (start.y + end.y) / 2,
+          lines,
+        })
       }
     }
 
+    // Above every edge, so crossing edges don't hide each other's labels
+    for (const { x, y, lines } of labels) drawEdgeLabel(x, y, lines)
+
     for (const nodeId of reverseIter(zBuffer)) {
       const node = nodes.get(nodeId)
       if (!node) {
@@ -208,6 +271,70 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     }
   }
 
+  /**
+   * Feedback edges point back up the graph (or to the node itself), so
+   * instead of cutting through the boxes in between they loop around on the
+   * right-hand side. Returns the middle of the loop, where its label goes.
+   */
+  function drawFeedbackEdge(fromBox: VisualNode, toBox: VisualNode) {
+    const fromRight = globalOffset.dx + fromBox.dx + fromBox.bbox.width
+    const toRight = globalOffset.dx + toBox.dx + toBox.bbox.width
+    const fromY = globalOffset.dy + fromBox.dy
+    const toY = globalOffset.dy + toBox.dy
+    const start = {
+      x: fromRight * scale,
+      y: (fromY + fromBox.bbox.height / 3) * scale,
+    }
+    const end = {
+      x: toRight * scale,
+      y: (toY + (toBox.bbox.height * 2) / 3) * scale,
+    }
+    const bulgeX = (Math.max(fromRight, toRight) + FEEDBACK_EDGE_BULGE) * scale
+
+    ctx.beginPath()
+    ctx.moveTo(start.x, start.y)
+    ctx.lineWidth = LINE_WIDTH * scale
+    ctx.strokeStyle = FEEDBACK_LINE_COLOR
+    ctx.setLineDash(FEEDBACK_LINE_DASH.map(dash => dash * LINE_WIDTH * scale))
+    ctx.bezierCurveTo(bulgeX, start.y, bulgeX, end.y, end.x, end.y)
+    ctx.stroke()
+    ctx.setLineDash([])
+    // Middle point of the curve, three quarters of the way to the bulge
+    return {
+      x: (start.x + end.x) / 8 + (bulgeX * 3) / 4,
+      y: (start.y + end.y) / 2,
+    }
+  }
+
+  /** Items per second on the edge and the belts they take, centered at x, y */
+  function drawEdgeLabel(x: number, y: number, lines: string[]) {
+    if (lines.length === 0) return
+    ctx.font = computeFont({
+      ...EDGE_LABEL_FONT,
+      size: EDGE_LABEL_FONT.size * scale,
+    })
+    const width =
+      Math.max(...lines.map(line => ctx.measureText(line).width)) +
+      EDGE_LABEL_PADDING * 2 * scale
+    const lineHeight = EDGE_LABEL_LINE_HEIGHT * scale
+    const height = lines.length * lineHeight + EDGE_LABEL_PADDING * 2 * scale
+    const left = x - width / 2
+    const top = y - height / 2
+
+    ctx.fillStyle = EDGE_LABEL_BG
+    ctx.fillRect(left, top, width, height)
+    ctx.fillStyle = EDGE_LABEL_COLOR
+    ctx.textBaseline = "middle"
+    lines.forEach((line, i) => {
+      ctx.fillText(
+        line,
+        left + EDGE_LABEL_PADDING * scale,
+        top + EDGE_LABEL_PADDING * scale + (i + 0.5) * lineHeight,
+      )
+    })
+    ctx.textBaseline = "alphabetic"
+  }
+
   type Listener = { type: string; listener: (ev: Event) => void }
 
   window.addEventListener("resize", revalidateSize)
@@ -299,6 +426,7 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     }
     const layoutNodes: LayoutNode[] = []
     graph = newGraph
+    updateEdgeLabels()
 
     for (const node of newGraph.nodes.values()) {
       const level = newGraph.nodeDepth.get(node.id)!
@@ -307,6 +435,10 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         ctx,
         node,
         focusedElement: focusedElement(node.id),
+        editedValue: editedValue(node.id),
+        merged: canUnmerge(newGraph, node.id),
+        supplied: node.type === "terminal" && isSupplied(newGraph, node.item),
+        miningResearch: newGraph.miningResearch,
       })
       updateExternalElements(node.id, externalElements)
 
@@ -327,23 +459,14 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         offset += levelHeight[i] + LEVEL_OFFSET
       }
 
-      let regions: InteractiveRegion[] | undefined
-      for (const widget of contents) {
-        if (widget.interactivity?.click) {
-          regions ??= []
-          regions.push({
-            interactivity: widget.interactivity,
-            layout: widget.layout,
-          })
-        }
-      }
-      if (regions) interactiveRegions.set(node.id, regions)
+      updateInteractiveRegions(node.id, contents)
 
       const horizontalOffset = nodesPlacedByLevel[level]
       nodesPlacedByLevel[level] += bbox.width + MIN_NODE_SPACING
+      const position = newGraph.positions.get(node.id)
       nodes.set(node.id, {
-        dx: -levelWidth[level] / 2 + horizontalOffset,
-        dy: offset,
+        dx: position?.x ?? -levelWidth[level] / 2 + horizontalOffset,
+        dy: position?.y ?? offset,
         bbox,
         recipeNode: node,
         dragbox,
@@ -361,6 +484,22 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     invalidateFrame()
   }
 
+  function updateInteractiveRegions(node: NodeID, contents: Widget[]) {
+    let regions: InteractiveRegion[] | undefined
+    for (const widget of contents) {
+      if (widget.interactivity?.click || widget.interactivity?.focus) {
+        regions ??= []
+        regions.push({
+          node,
+          interactivity: widget.interactivity,
+          layout: widget.layout,
+        })
+      }
+    }
+    if (regions) interactiveRegions.set(node, regions)
+    else interactiveRegions.delete(node)
+  }
+
   function focusedElement(forNode: NodeID) {
     if (!elementInFocus) return undefined
     const [node, elementKey] = elementInFocus
@@ -368,6 +507,16 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     return elementKey
   }
 
+  function editedValue(forNode: NodeID) {
+    if (!focusedElement(forNode)) return undefined
+    return valueInFocus
+  }
+
+  function focusExternalElement(node: NodeID, elementKey: string) {
+    const element = presentExternalElements.get(node)?.[elementKey]
+    element?.element.focus()
+  }
+
   function updateExternalElements(
     node: NodeID,
     nextElements: Record<string, ExternalElement>,
@@ -420,9 +569,82 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         externalListeners.set(button, listeners)
 
         prevElements[newElementKey] = { element: button, tag, title }
+      } else if (newElement.tag === "input") {
+        const input = document.createElement("input")
+        input.inputMode = "decimal"
+        input.value = newElement.value
+        if (newElement.title !== undefined) {
+          input.title = newElement.title
+        }
+        const listeners: Listener[] = []
+
+        const handleFocus = () => {
+          elementInFocus = [node, newElementKey]
+          valueInFocus = input.value
+          input.select()
+          invalidateLayout(node)
+        }
+        input.addEventListener("focus", handleFocus)
+        listeners.push({ type: "focus", listener: handleFocus })
+
+        const handleInput = () => {
+          valueInFocus = input.value
+          invalidateLayout(node)
+        }
+        input.addEventListener("input", handleInput)
+        listeners.push({ type: "input", listener: handleInput })
+
+        const handleBlur = () => {
+          if (!elementInFocus) return
+          const [prevNode, prevElementKey] = elementInFocus
+          if (prevNode !== node) return
+          if (prevElementKey !== newElementKey) return
+          elementInFocus = undefined
+          valueInFocus = undefined
+          invalidateLayout(node)
+        }
+        input.addEventListener("blur", handleBlur)
+        listeners.push({ type: "blur", listener: handleBlur })
+
+        const handleChange = () => {
+          const element = prevElements[newElementKey]
+          if (element?.tag !== "input") return
+          const action = element.commit(input.value)
+          if (action) localPort.postMessage(action)
+          else input.value = element.value
+        }
+        input.addEventListener("change", handleChange)
+        listeners.push({ type: "change", listener: handleChange })
+
+        const handleKeyDown = (ev: Event) => {
+          const element = prevElements[newElementKey]
+          if (!(ev instanceof KeyboardEvent) || element?.tag !== "input") return
+          if (ev.key === "Enter") {
+            input.blur()
+          } else if (ev.key === "Escape") {
+            input.value = element.value
+            input.blur()
+          }
+        }
+        input.addEventListener("keydown", handleKeyDown)
+        listeners.push({ type: "keydown", listener: handleKeyDown })
+
+        canvas.append(input)
+        externalListeners.set(input, listeners)
+
+        prevElements[newElementKey] = { ...newElement, element: input }
       }
     }
 
+    for (const key of Object.keys(nextElements)) {
+      const prevElement = prevElements[key]
+      const nextElement = nextElements[key]
+      if (prevElement?.tag !== "input" || nextElement?.tag !== "input") continue
+      prevElements[key] = { ...nextElement, element: prevElement.element }
+      const input = prevElement.element as HTMLInputElement
+      if (document.activeElement !== input) input.value = nextElement.value
+    }
+
     for (const removedElementKey of removals(prevElements, nextElements)) {
       const element = prevElements[removedElementKey]!
       element.element.remove()
@@ -448,6 +670,11 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         updateGraph(ev.data.graph)
         break
       }
+      case "set-belt-tier":
+        beltTier = ev.data.tier
+        updateEdgeLabels()
+        invalidateFrame()
+        break
     }
   }
 
@@ -470,13 +697,21 @@ export function initCanvas(canvas: HTMLCanvasElement) {
   function invalidateLayout(ofNode: NodeID) {
     const visualNode = nodes.get(ofNode)
     if (!visualNode) return
-    const { externalElements, bbox, contents } = layout.node({
+    const { externalElements, bbox, contents, dragbox } = layout.node({
       ctx,
       node: visualNode.recipeNode,
       focusedElement: focusedElement(ofNode),
+      editedValue: editedValue(ofNode),
+      merged: canUnmerge(graph, ofNode),
+      supplied:
+        visualNode.recipeNode.type === "terminal" &&
+        isSupplied(graph, visualNode.recipeNode.item),
+      miningResearch: graph.miningResearch,
     })
     updateExternalElements(ofNode, externalElements)
+    updateInteractiveRegions(ofNode, contents)
     visualNode.bbox = bbox
+    visualNode.dragbox = dragbox
     visualNode.contents = contents
     invalidateComposition(visualNode)
   }
@@ -486,6 +721,8 @@ export function initCanvas(canvas: HTMLCanvasElement) {
     y: number
     box: VisualNode
     anchor: { x: number; y: number }
+    /** Where the box was when the drag started */
+    origin: Offset2D
   }
   const pointerStates = new Map<number, PointerState>()
   let cursor = "auto"
@@ -544,17 +781,22 @@ export function initCanvas(canvas: HTMLCanvasElement) {
         y,
         box,
         anchor: { x: x - box.dx * scale, y: y - box.dy * scale },
+        origin: { dx: box.dx, dy: box.dy },
       })
       shiftOrder(zBuffer, box.recipeNode.id)
     } else if (type === "region" && box.interactivity.click) {
       localPort.postMessage(box.interactivity.click)
+    } else if (type === "region" && box.interactivity.focus) {
+      // Prevents the canvas from stealing focus back on the following mousedown
+      ev.preventDefault()
+      focusExternalElement(box.node, box.interactivity.focus)
     }
   }
 
   function handlePointerUp(ev: PointerEvent) {
     const pointerState = pointerStates.get(ev.pointerId)
     pointerStates.delete(ev.pointerId)
-    if (nodeToMergeWith) {
+    if (nodeToMergeWith !== undefined) {
       if (pointerState) {
         localPort.postMessage({
           type: "merge",
@@ -565,6 +807,16 @@ export function initCanvas(canvas: HTMLCanvasElement) {
 
       nodeToMergeWith = undefined
       invalidateFrame()
+    } else if (
+      pointerState &&
+      (pointerState.box.dx !== pointerState.origin.dx ||
+        pointerState.box.dy !== pointerState.origin.dy)
+    ) {
+      localPort.postMessage({
+        type: "move",
+        node: pointerState.box.recipeNode.id,
+        position: { x: pointerState.box.dx, y: pointerState.box.dy },
+      })
     }
   }
 
@@ -18,15 +18,24 @@ type WidgetKind =
 
 export type Interactivity = {
   click?: Action
+  /** Key of the external element to focus on click */
+  focus?: string
 }
 
 export type Widget = { layout: Rect; interactivity?: Interactivity } & WidgetKind
 
-export type ExternalElement = {
-  tag: "button"
-  activate?: Action
-  title?: string
-}
+export type ExternalElement =
+  | {
+      tag: "button"
+      activate?: Action
+      title?: string
+    }
+  | {
+      tag: "input"
+      value: string
+      title?: string
+      commit(value: string): Action | undefined
+    }
 
 export type Font = {
   family: string
@@ -1,8 +1,33 @@
-import { IntermediateNode, RecipeNode, RootNode, TerminalNode } from "../graph"
+import {
+  Action,
+  IntermediateNode,
+  RecipeNode,
+  ResourceNode,
+  RootNode,
+  TerminalNode,
+} from "../graph"
 import { iconNameForItem, iconNameForRecipe } from "../icon"
-import { machineCount, machineItem, machineName } from "../machine"
+import {
+  Machine,
+  formatPower,
+  machineCount,
+  madeIn,
+  machineItem,
+  machineName,
+  moduleSlots,
+  powerUse,
+} from "../machine"
+import { BEACON_ITEM, ModuleSetup, moduleItem } from "../modules"
 import { t } from "../recipe"
 import { recipeName } from "../recipe"
+import { amountOf, nodeOutputs, nodeProduction } from "../rates"
+import {
+  extractorCount,
+  extractorItem,
+  extractorName,
+  extractorPower,
+  extractorsFor,
+} from "../resource"
 import {
   Color,
   ComputedFont,
@@ -28,7 +53,15 @@ const COLLAPSE_BUTTON_SIZE = 20
 const COLLAPSE_MINUS_HEIGHT = 4
 const COLLAPSE_BUTTON_PADDING = 4
 const COLLAPSE_BUTTON_MARGIN = 12
+const HEADER_BUTTON_SIZE = 20
+const HEADER_BUTTON_MARGIN = 8
 const FOCUS_RING_SIZE = 4
+const FIELD_PADDING = 4
+const FIELD_MIN_WIDTH = 32
+const CARET_WIDTH = 2
+const OUTPUT_ICON_SIZE = 20
+const OUTPUT_ICON_MARGIN = 8
+const MODULE_ICON_GAP = 4
 
 const TITLE_FONT = {
   family: "sans-serif",
@@ -57,6 +90,11 @@ const REQUIRED_AMOUNT_COLOR = "#ccc" as Color
 const FOCUS_COLOR = "#005fdf" as Color
 const COLLAPSE_BUTTON_BG = "#1f1f1f" as Color
 const COLLAPSE_BUTTON_COLOR = "#ccc" as Color
+const HEADER_BUTTON_BG = "#1f1f1f" as Color
+const SUPPLIED_BOX_BG = "#2b3a4d" as Color
+const FIELD_BG = "#1f1f1f" as Color
+const SURPLUS_COLOR = "#8fd18f" as Color
+const SHORTFALL_COLOR = "#ff8a80" as Color
 
 const computedFonts = {
   title: computeFont(TITLE_FONT),
@@ -90,6 +128,182 @@ function lineMargin(font: Font) {
   return font.size * (LINE_SPACING - 1)
 }
 
+/** Power the node's machines take, burnt fuel told apart from electricity */
+function powerText(machine: Machine, count: number, modules?: ModuleSetup) {
+  const { electric, fuel } = powerUse(machine, count, modules)
+  return fuel > 0 ? `${formatPower(fuel)} of fuel` : formatPower(electric)
+}
+
+type Section = {
+  width: number
+  height: number
+  widgets(x: number, y: number): Widget[]
+}
+
+/**
+ * Icons of the modules in each of the node's machines, then the beacon icon
+ * with the number of beacons reaching each machine. Empty without modules.
+ */
+function modulesSection(
+  ctx: CanvasRenderingContext2D,
+  node: RootNode | IntermediateNode,
+): Section {
+  const modules = node.modules?.modules ?? []
+  const beacons = node.modules?.beacons ?? 0
+  if (modules.length === 0 && beacons === 0) {
+    return { width: 0, height: 0, widgets: () => [] }
+  }
+
+  const beaconText = `× ${beacons}`
+  const beaconMeasures = text(ctx, beaconText, computedFonts.body)
+  const modulesWidth =
+    modules.length * (OUTPUT_ICON_SIZE + MODULE_ICON_GAP) - MODULE_ICON_GAP
+  const beaconX = modules.length > 0 ? modulesWidth + OUTPUT_ICON_MARGIN : 0
+  const height = Math.max(OUTPUT_ICON_SIZE, beaconMeasures.height)
+
+  return {
+    width:
+      beacons > 0
+        ? beaconX + OUTPUT_ICON_SIZE + MODULE_ICON_GAP + beaconMeasures.width
+        : modulesWidth,
+    height,
+    widgets(x, y) {
+      const widgets: Widget[] = modules.map((module, i) => ({
+        type: "icon",
+        name: iconNameForItem(moduleItem(module)),
+        layout: {
+          x: x + i * (OUTPUT_ICON_SIZE + MODULE_ICON_GAP),
+          y: y + height / 2 - OUTPUT_ICON_SIZE / 2,
+          width: OUTPUT_ICON_SIZE,
+          height: OUTPUT_ICON_SIZE,
+        },
+      }))
+      if (beacons === 0) return widgets
+      widgets.push(
+        {
+          type: "icon",
+          name: iconNameForItem(BEACON_ITEM),
+          layout: {
+            x: x + beaconX,
+            y: y + height / 2 - OUTPUT_ICON_SIZE / 2,
+            width: OUTPUT_ICON_SIZE,
+            height: OUTPUT_ICON_SIZE,
+          },
+        },
+        {
+          type: "text",
+          text: beaconText,
+          font: BODY_FONT,
+          color: TEXT_COLOR,
+          baseline: beaconMeasures.baseline,
+          layout: {
+            x: x + beaconX + OUTPUT_ICON_SIZE + MODULE_ICON_GAP,
+            y: y + height / 2 - beaconMeasures.height / 2,
+            width: beaconMeasures.width,
+            height: beaconMeasures.height,
+          },
+        },
+      )
+      return widgets
+    },
+  }
+}
+
+/**
+ * One row per result of the node's recipe with its output rate and the part
+ * of it that is left over (or missing). Empty for recipes with a single
+ * result that is fully consumed.
+ */
+function outputsSection(
+  ctx: CanvasRenderingContext2D,
+  node: RootNode | IntermediateNode,
+): Section {
+  const outputs = nodeOutputs(node)
+  if (outputs.length < 2 && node.surplus.length === 0) {
+    return { width: 0, height: 0, widgets: () => [] }
+  }
+
+  const rows = outputs.map(output => {
+    const rate = `${numberFormat.format(output.amount)}/s`
+    const rateMeasures = text(ctx, rate, computedFonts.body)
+    const leftover = amountOf(node.surplus, output)
+    const leftoverText =
+      leftover > 0
+        ? ` +${numberFormat.format(leftover)}/s surplus`
+        : leftover < 0
+        ? ` ${numberFormat.format(-leftover)}/s short`
+        : ""
+    const leftoverMeasures = text(ctx, leftoverText, computedFonts.body)
+    return {
+      output,
+      rate,
+      rateMeasures,
+      leftover,
+      leftoverText,
+      leftoverMeasures,
+      width:
+        OUTPUT_ICON_SIZE +
+        OUTPUT_ICON_MARGIN +
+        rateMeasures.width +
+        leftoverMeasures.width,
+      height: Math.max(OUTPUT_ICON_SIZE, rateMeasures.height),
+    }
+  })
+
+  return {
+    width: Math.max(...rows.map(row => row.width)),
+    height:
+      rows.reduce((sum, row) => sum + row.height, 0) +
+      lineMargin(BODY_FONT) * (rows.length - 1),
+    widgets(x, y) {
+      const widgets: Widget[] = []
+      for (const row of rows) {
+        const textX = x + OUTPUT_ICON_SIZE + OUTPUT_ICON_MARGIN
+        widgets.push(
+          {
+            type: "icon",
+            name: iconNameForItem(row.output),
+            layout: {
+              x,
+              y: y + row.height / 2 - OUTPUT_ICON_SIZE / 2,
+              width: OUTPUT_ICON_SIZE,
+              height: OUTPUT_ICON_SIZE,
+            },
+          },
+          {
+            type: "text",
+            text: row.rate,
+            font: BODY_FONT,
+            color: TEXT_COLOR,
+            baseline: row.rateMeasures.baseline,
+            layout: {
+              x: textX,
+              y: y + row.height / 2 - row.rateMeasures.height / 2,
+              width: row.rateMeasures.width,
+              height: row.rateMeasures.height,
+            },
+          },
+          {
+            type: "text",
+            text: row.leftoverText,
+            font: BODY_FONT,
+            color: row.leftover < 0 ? SHORTFALL_COLOR : SURPLUS_COLOR,
+            baseline: row.leftoverMeasures.baseline,
+            layout: {
+              x: textX + row.rateMeasures.width,
+              y: y + row.height / 2 - row.leftoverMeasures.height / 2,
+              width: row.leftoverMeasures.width,
+              height: row.leftoverMeasures.height,
+            },
+          },
+        )
+        y += row.height + lineMargin(BODY_FONT)
+      }
+      return widgets
+    },
+  }
+}
+
 type LayoutResult = {
   bbox: { width: number; height: number }
   dragbox: Rect
@@ -97,27 +311,61 @@ type LayoutResult = {
   contents: Widget[]
 }
 
-export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
+export function rootBox({
+  ctx,
+  node,
+  focusedElement,
+  editedValue,
+}: BoxProps<RootNode>): LayoutResult {
   const name = recipeName(node.recipe)
   const titleMeasures = text(ctx, name, computedFonts.title)
   const headerHeight = Math.max(titleMeasures.height, ICON_SIZE)
-  const headerWidth = ICON_SIZE + ICON_MARGIN + titleMeasures.width
+  const buttons = [expandAllButton(node, name), ...modulesButton(node, name)]
+  const headerWidth =
+    ICON_SIZE + ICON_MARGIN + titleMeasures.width + headerButtonsWidth(buttons)
 
-  const productionLine = `Desired production rate: ${node.desiredProduction} per second`
-  const productionLineMeasures = text(ctx, productionLine, computedFonts.body)
+  const rateFocused = focusedElement === "rate"
+  const rateLabel = "Desired production rate: "
+  const rateLabelMeasures = text(ctx, rateLabel, computedFonts.body)
+  const rateValue =
+    (rateFocused ? editedValue : undefined) ??
+    numberFormat.format(node.desiredProduction)
+  const rateValueMeasures = text(ctx, rateValue, computedFonts.body)
+  const rateUnit = " per second"
+  const rateUnitMeasures = text(ctx, rateUnit, computedFonts.body)
+
+  const rateField = {
+    width:
+      Math.max(FIELD_MIN_WIDTH, rateValueMeasures.width + CARET_WIDTH) +
+      FIELD_PADDING * 2,
+    height: BODY_FONT.size + FIELD_PADDING * 2,
+  }
+  const productionLineMeasures = {
+    width: rateLabelMeasures.width + rateField.width + rateUnitMeasures.width,
+    height: rateField.height,
+  }
+  const productionLineY =
+    BOX_PADDING + headerHeight + BOX_CONTENT_MARGIN + BOX_CONTENT_PADDING
+  const rateFieldX = BOX_PADDING + BOX_CONTENT_PADDING + rateLabelMeasures.width
 
   const craftingTime = `Crafting time: ${node.recipe.energyRequired}s`
   const craftingTimeMeasures = text(ctx, craftingTime, computedFonts.body)
 
   const machinesRequired = machineCount(
     node.recipe,
-    node.desiredProduction,
+    nodeProduction(node),
     node.machine,
+    undefined,
+    node.modules,
   )
   const machinesRequiredText = `${machineName(
     node.machine,
-  )} required: ${numberFormat.format(machinesRequired)}`
-  const machineIcon = iconNameForItem(machineItem(node.machine))
+  )} required: ${numberFormat.format(machinesRequired)} (${powerText(
+    node.machine,
+    machinesRequired,
+    node.modules,
+  )})`
+  const switchMachine = nextMachine(node)
 
   const machinesRequiredMeasures = text(
     ctx,
@@ -135,12 +383,30 @@ export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
     BUTTON_MARGIN +
     machinesRequiredMeasures.width
 
+  const modules = modulesSection(ctx, node)
+  const modulesY =
+    BOX_PADDING +
+    headerHeight +
+    BOX_CONTENT_MARGIN +
+    BOX_CONTENT_PADDING +
+    productionLineMeasures.height +
+    lineMargin(BODY_FONT) +
+    craftingTimeMeasures.height +
+    lineMargin(BODY_FONT) +
+    assemblerLineHeight +
+    lineMargin(BODY_FONT)
+  const outputs = outputsSection(ctx, node)
+  const outputsY =
+    modulesY + (modules.height > 0 ? modules.height + lineMargin(BODY_FONT) : 0)
+
   const bodyWidth =
     BOX_CONTENT_PADDING * 2 +
     Math.max(
       productionLineMeasures.width,
       craftingTimeMeasures.width,
       assemblerLineWidth,
+      modules.width,
+      outputs.width,
     )
   const bodyHeight =
     BOX_CONTENT_PADDING * 2 +
@@ -148,7 +414,9 @@ export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
     lineMargin(BODY_FONT) +
     craftingTimeMeasures.height +
     lineMargin(BODY_FONT) +
-    assemblerLineHeight
+    assemblerLineHeight +
+    (modules.height > 0 ? lineMargin(BODY_FONT) + modules.height : 0) +
+    (outputs.height > 0 ? lineMargin(BODY_FONT) + outputs.height : 0)
 
   const bbox = {
     width: BOX_PADDING * 2 + Math.max(headerWidth, bodyWidth),
@@ -163,7 +431,21 @@ export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
       width: bbox.width,
       height: headerHeight + BOX_PADDING * 2,
     },
-    externalElements: {},
+    externalElements: {
+      rate: {
+        tag: "input",
+        title: `Desired production rate of ${name}`,
+        value: String(node.desiredProduction),
+        commit(value) {
+          const rate = Number(value)
+          if (value.trim() === "" || !Number.isFinite(rate) || rate < 0) return
+          if (rate === node.desiredProduction) return
+          return { type: "set-rate", node: node.id, rate }
+        },
+      },
+      ...machineElements(name, switchMachine),
+      ...headerButtonElements(buttons),
+    },
     contents: [
       {
         type: "box",
@@ -210,81 +492,110 @@ export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
       },
       {
         type: "text",
-        text: productionLine,
+        text: rateLabel,
         font: BODY_FONT,
         color: TEXT_COLOR,
-        baseline: productionLineMeasures.baseline,
+        baseline: rateLabelMeasures.baseline,
         layout: {
           x: BOX_PADDING + BOX_CONTENT_PADDING,
           y:
-            BOX_PADDING +
-            headerHeight +
-            BOX_CONTENT_MARGIN +
-            BOX_CONTENT_PADDING,
-          width: productionLineMeasures.width,
-          height: productionLineMeasures.height,
+            productionLineY +
+            productionLineMeasures.height / 2 -
+            rateLabelMeasures.height / 2,
+          width: rateLabelMeasures.width,
+          height: rateLabelMeasures.height,
+        },
+      },
+      {
+        type: "box",
+        bg: rateFocused ? FOCUS_COLOR : BODY_BG,
+        layout: {
+          x: rateFieldX - FOCUS_RING_SIZE / 2,
+          y: productionLineY - FOCUS_RING_SIZE / 2,
+          width: rateField.width + FOCUS_RING_SIZE,
+          height: rateField.height + FOCUS_RING_SIZE,
+        },
+      },
+      {
+        type: "box",
+        bg: FIELD_BG,
+        interactivity: { focus: "rate" },
+        layout: {
+          x: rateFieldX,
+          y: productionLineY,
+          width: rateField.width,
+          height: rateField.height,
         },
       },
       {
         type: "text",
-        text: craftingTime,
+        text: rateValue,
         font: BODY_FONT,
         color: TEXT_COLOR,
-        baseline: craftingTimeMeasures.baseline,
+        baseline: rateValueMeasures.baseline,
         layout: {
-          x: BOX_PADDING + BOX_CONTENT_PADDING,
+          x: rateFieldX + FIELD_PADDING,
           y:
-            BOX_PADDING +
-            headerHeight +
-            BOX_CONTENT_MARGIN +
-            BOX_CONTENT_PADDING +
-            productionLineMeasures.height +
-            lineMargin(BODY_FONT),
-          width: craftingTimeMeasures.width,
-          height: craftingTimeMeasures.height,
+            productionLineY +
+            productionLineMeasures.height / 2 -
+            rateValueMeasures.height / 2,
+          width: rateValueMeasures.width,
+          height: rateValueMeasures.height,
         },
       },
+      ...(rateFocused ? [caret()] : []),
       {
-        type: "box",
-        bg: BUTTON_BG,
+        type: "text",
+        text: rateUnit,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: rateUnitMeasures.baseline,
         layout: {
-          x: BOX_PADDING + BOX_CONTENT_PADDING,
+          x: rateFieldX + rateField.width,
           y:
-            BOX_PADDING +
-            headerHeight +
-            BOX_CONTENT_MARGIN +
-            BOX_CONTENT_PADDING +
-            productionLineMeasures.height +
-            lineMargin(BODY_FONT) +
-            craftingTimeMeasures.height +
-            lineMargin(BODY_FONT) +
-            assemblerLineHeight / 2 -
-            (BUTTON_PADDING * 2 + ICON_SIZE) / 2,
-          width: BUTTON_PADDING * 2 + ICON_SIZE,
-          height: BUTTON_PADDING * 2 + ICON_SIZE,
+            productionLineY +
+            productionLineMeasures.height / 2 -
+            rateUnitMeasures.height / 2,
+          width: rateUnitMeasures.width,
+          height: rateUnitMeasures.height,
         },
       },
       {
-        type: "icon",
-        name: machineIcon,
+        type: "text",
+        text: craftingTime,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: craftingTimeMeasures.baseline,
         layout: {
-          x: BOX_PADDING + BOX_CONTENT_PADDING + BUTTON_PADDING,
+          x: BOX_PADDING + BOX_CONTENT_PADDING,
           y:
             BOX_PADDING +
             headerHeight +
             BOX_CONTENT_MARGIN +
             BOX_CONTENT_PADDING +
             productionLineMeasures.height +
-            lineMargin(BODY_FONT) +
-            craftingTimeMeasures.height +
-            lineMargin(BODY_FONT) +
-            assemblerLineHeight / 2 -
-            (BUTTON_PADDING * 2 + ICON_SIZE) / 2 +
-            BUTTON_PADDING,
-          width: ICON_SIZE,
-          height: ICON_SIZE,
+            lineMargin(BODY_FONT),
+          width: craftingTimeMeasures.width,
+          height: craftingTimeMeasures.height,
         },
       },
+      ...machineButton({
+        machine: node.machine,
+        x: BOX_PADDING + BOX_CONTENT_PADDING,
+        y:
+          BOX_PADDING +
+          headerHeight +
+          BOX_CONTENT_MARGIN +
+          BOX_CONTENT_PADDING +
+          productionLineMeasures.height +
+          lineMargin(BODY_FONT) +
+          craftingTimeMeasures.height +
+          lineMargin(BODY_FONT) +
+          assemblerLineHeight / 2 -
+          (BUTTON_PADDING * 2 + ICON_SIZE) / 2,
+        switchMachine,
+        focused: focusedElement === "machine",
+      }),
       {
         type: "text",
         text: machinesRequiredText,
@@ -313,14 +624,38 @@ export function rootBox({ ctx, node }: BoxProps<RootNode>): LayoutResult {
           height: machinesRequiredMeasures.height,
         },
       },
+      ...modules.widgets(BOX_PADDING + BOX_CONTENT_PADDING, modulesY),
+      ...outputs.widgets(BOX_PADDING + BOX_CONTENT_PADDING, outputsY),
+      ...headerButtons({
+        ctx,
+        buttons,
+        right: bbox.width - BOX_PADDING,
+        y: BOX_PADDING + headerHeight / 2 - HEADER_BUTTON_SIZE / 2,
+        focusedElement,
+      }),
     ],
   }
+
+  function caret(): Widget {
+    return {
+      type: "box",
+      bg: TEXT_COLOR,
+      layout: {
+        x: rateFieldX + FIELD_PADDING + rateValueMeasures.width,
+        y: productionLineY + FIELD_PADDING,
+        width: CARET_WIDTH,
+        height: BODY_FONT.size,
+      },
+    }
+  }
 }
 
 export function terminalBox({
   ctx,
   node,
   focusedElement,
+  merged,
+  supplied,
 }: BoxProps<TerminalNode>): LayoutResult {
   const name = t(node.item.name) ?? node.item.name
   const nameMeasures = text(ctx, name, computedFonts.title)
@@ -341,7 +676,19 @@ export function terminalBox({
   const iconName =
     node.item.type === "fluid" ? `fluid/${node.item.name}` : node.item.name
 
-  if (node.producedByRecipes.length === 1) {
+  const buttons = [
+    ...(node.producedByRecipes.length > 0 && !supplied
+      ? [expandAllButton(node, name)]
+      : []),
+    ...(supplied ? [] : extractButton(node, name)),
+    supplyButton(node, name, supplied),
+    ...(merged ? [splitButton(node, name)] : []),
+  ]
+  const boxBg = supplied ? SUPPLIED_BOX_BG : BOX_BG
+  const buttonsWidth = headerButtonsWidth(buttons)
+  const buttonsY = BOX_PADDING + lineHeight / 2 - HEADER_BUTTON_SIZE / 2
+
+  if (node.producedByRecipes.length > 0) {
     return expandableTerminalBox()
   } else return nonExpandableTerminalBox()
 
@@ -357,7 +704,8 @@ export function terminalBox({
         ICON_MARGIN +
         nameMeasures.width +
         REQUIRED_AMOUNT_MARGIN +
-        requiredAmountMeasures.width,
+        requiredAmountMeasures.width +
+        buttonsWidth,
       height: BOX_PADDING * 2 + lineHeight + TERMINAL_BOX_BOTTOM_PADDING,
     }
 
@@ -373,13 +721,17 @@ export function terminalBox({
         expand: {
           tag: "button",
           activate: { type: "expand", node: node.id },
-          title: `Expand recipe for ${t(node.item.name)}`,
+          title:
+            node.producedByRecipes.length === 1
+              ? `Expand recipe for ${name}`
+              : `Choose recipe for ${name}`,
         },
+        ...headerButtonElements(buttons),
       },
       contents: [
         {
           type: "box",
-          bg: BOX_BG,
+          bg: boxBg,
           layout: {
             x: 0,
             y: 0,
@@ -465,6 +817,13 @@ export function terminalBox({
             height: expandPlusMeasures.height,
           },
         },
+        ...headerButtons({
+          ctx,
+          buttons,
+          right: dragbox.width - BOX_PADDING,
+          y: buttonsY,
+          focusedElement,
+        }),
       ],
     }
   }
@@ -477,18 +836,19 @@ export function terminalBox({
         ICON_MARGIN +
         nameMeasures.width +
         REQUIRED_AMOUNT_MARGIN +
-        requiredAmountMeasures.width,
+        requiredAmountMeasures.width +
+        buttonsWidth,
       height: BOX_PADDING * 2 + lineHeight,
     }
 
     return {
       dragbox: { x: 0, y: 0, width: bbox.width, height: bbox.height },
       bbox,
-      externalElements: {},
+      externalElements: headerButtonElements(buttons),
       contents: [
         {
           type: "box",
-          bg: BOX_BG,
+          bg: boxBg,
           layout: {
             x: 0,
             y: 0,
@@ -537,27 +897,626 @@ export function terminalBox({
             height: requiredAmountMeasures.height,
           },
         },
+        ...headerButtons({
+          ctx,
+          buttons,
+          right: bbox.width - BOX_PADDING,
+          y: buttonsY,
+          focusedElement,
+        }),
       ],
     }
   }
 }
 
+/**
+ * Raw resource the plan extracts itself. The body tells how many extractors
+ * it takes, along with the field's yield for pumpjacks.
+ */
+export function resourceBox({
+  ctx,
+  node,
+  focusedElement,
+  editedValue,
+  merged,
+  miningResearch = 0,
+}: BoxProps<ResourceNode>): LayoutResult {
+  const name = t(node.item.name) ?? node.item.name
+  const nameMeasures = text(ctx, name, computedFonts.title)
+
+  const requiredAmountText = `${numberFormat.format(node.requiredAmount)}/s`
+  const requiredAmountMeasures = text(
+    ctx,
+    requiredAmountText,
+    computedFonts.requiredAmount,
+  )
+  const headerHeight = Math.max(
+    nameMeasures.height,
+    requiredAmountMeasures.height,
+    ICON_SIZE,
+  )
+  const iconName =
+    node.item.type === "fluid" ? `fluid/${node.item.name}` : node.item.name
+
+  const buttons = [
+    ...extractorButton(node, name),
+    stopExtractingButton(node, name),
+    ...(merged ? [splitButton(node, name)] : []),
+  ]
+  const headerWidth =
+    ICON_SIZE +
+    ICON_MARGIN +
+    nameMeasures.width +
+    REQUIRED_AMOUNT_MARGIN +
+    requiredAmountMeasures.width +
+    headerButtonsWidth(buttons)
+
+  const { extractor } = node
+  const count = extractorCount(
+    extractor,
+    node.item,
+    node.requiredAmount,
+    miningResearch,
+  )
+  const { electric, fuel } = extractorPower(extractor, count)
+  const power =
+    fuel > 0
+      ? ` (${formatPower(fuel)} of fuel)`
+      : electric > 0
+      ? ` (${formatPower(electric)})`
+      : ""
+  const extractorsText = `${extractorName(
+    extractor,
+  )} required: ${numberFormat.format(count)}${power}`
+  const extractorsMeasures = text(ctx, extractorsText, computedFonts.body)
+  const extractorLineHeight = Math.max(
+    BUTTON_PADDING * 2 + ICON_SIZE,
+    extractorsMeasures.height,
+  )
+  const extractorLineWidth =
+    BUTTON_PADDING * 2 + ICON_SIZE + BUTTON_MARGIN + extractorsMeasures.width
+  const extractorLineY =
+    BOX_PADDING + headerHeight + BOX_CONTENT_MARGIN + BOX_CONTENT_PADDING
+
+  const fieldYield = extractor.type === "pumpjack" ? extractor.yield : undefined
+  const yieldFocused = focusedElement === "yield"
+  const yieldLabel = "Field yield: "
+  const yieldLabelMeasures = text(ctx, yieldLabel, computedFonts.body)
+  const yieldValue =
+    (yieldFocused ? editedValue : undefined) ??
+    numberFormat.format(fieldYield ?? 0)
+  const yieldValueMeasures = text(ctx, yieldValue, computedFonts.body)
+  const yieldUnit = "%"
+  const yieldUnitMeasures = text(ctx, yieldUnit, computedFonts.body)
+  const yieldField = {
+    width:
+      Math.max(FIELD_MIN_WIDTH, yieldValueMeasures.width + CARET_WIDTH) +
+      FIELD_PADDING * 2,
+    height: BODY_FONT.size + FIELD_PADDING * 2,
+  }
+  const yieldLineWidth =
+    yieldLabelMeasures.width + yieldField.width + yieldUnitMeasures.width
+  const yieldLineY =
+    extractorLineY + extractorLineHeight + lineMargin(BODY_FONT)
+  const yieldFieldX =
+    BOX_PADDING + BOX_CONTENT_PADDING + yieldLabelMeasures.width
+
+  const bodyWidth =
+    BOX_CONTENT_PADDING * 2 +
+    Math.max(extractorLineWidth, fieldYield === undefined ? 0 : yieldLineWidth)
+  const bodyHeight =
+    BOX_CONTENT_PADDING * 2 +
+    extractorLineHeight +
+    (fieldYield === undefined ? 0 : lineMargin(BODY_FONT) + yieldField.height)
+
+  const bbox = {
+    width: BOX_PADDING * 2 + Math.max(headerWidth, bodyWidth),
+    height: BOX_PADDING * 2 + headerHeight + BOX_CONTENT_MARGIN + bodyHeight,
+  }
+
+  return {
+    bbox,
+    dragbox: {
+      x: 0,
+      y: 0,
+      width: bbox.width,
+      height: headerHeight + BOX_PADDING * 2,
+    },
+    externalElements: {
+      ...(fieldYield === undefined ? {} : { yield: yieldInput(fieldYield) }),
+      ...headerButtonElements(buttons),
+    },
+    contents: [
+      {
+        type: "box",
+        bg: BOX_BG,
+        layout: { x: 0, y: 0, width: bbox.width, height: bbox.height },
+      },
+      {
+        type: "box",
+        bg: BODY_BG,
+        layout: {
+          x: BOX_PADDING,
+          y: BOX_PADDING + headerHeight + BOX_CONTENT_MARGIN,
+          width: bodyWidth,
+          height: bodyHeight,
+        },
+      },
+      {
+        type: "icon",
+        name: iconName,
+        layout: {
+          x: BOX_PADDING,
+          y: BOX_PADDING + headerHeight / 2 - ICON_SIZE / 2,
+          width: ICON_SIZE,
+          height: ICON_SIZE,
+        },
+      },
+      {
+        type: "text",
+        text: name,
+        font: TITLE_FONT,
+        color: TITLE_COLOR,
+        baseline: nameMeasures.baseline,
+        layout: {
+          x: BOX_PADDING + ICON_SIZE + ICON_MARGIN,
+          y: BOX_PADDING + headerHeight / 2 - nameMeasures.height / 2,
+          width: nameMeasures.width,
+          height: nameMeasures.height,
+        },
+      },
+      {
+        type: "text",
+        text: requiredAmountText,
+        font: REQUIRED_AMOUNT_FONT,
+        color: REQUIRED_AMOUNT_COLOR,
+        baseline: requiredAmountMeasures.baseline,
+        layout: {
+          x:
+            BOX_PADDING +
+            ICON_SIZE +
+            ICON_MARGIN +
+            nameMeasures.width +
+            REQUIRED_AMOUNT_MARGIN,
+          y: BOX_PADDING,
+          width: requiredAmountMeasures.width,
+          height: requiredAmountMeasures.height,
+        },
+      },
+      {
+        type: "box",
+        bg: BUTTON_BG,
+        layout: {
+          x: BOX_PADDING + BOX_CONTENT_PADDING,
+          y:
+            extractorLineY +
+            extractorLineHeight / 2 -
+            (BUTTON_PADDING * 2 + ICON_SIZE) / 2,
+          width: BUTTON_PADDING * 2 + ICON_SIZE,
+          height: BUTTON_PADDING * 2 + ICON_SIZE,
+        },
+      },
+      {
+        type: "icon",
+        name: iconNameForItem(extractorItem(extractor)),
+        layout: {
+          x: BOX_PADDING + BOX_CONTENT_PADDING + BUTTON_PADDING,
+          y: extractorLineY + extractorLineHeight / 2 - ICON_SIZE / 2,
+          width: ICON_SIZE,
+          height: ICON_SIZE,
+        },
+      },
+      {
+        type: "text",
+        text: extractorsText,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: extractorsMeasures.baseline,
+        layout: {
+          x:
+            BOX_PADDING +
+            BOX_CONTENT_PADDING +
+            BUTTON_PADDING * 2 +
+            ICON_SIZE +
+            BUTTON_MARGIN,
+          y:
+            extractorLineY +
+            extractorLineHeight / 2 -
+            extractorsMeasures.height / 2,
+          width: extractorsMeasures.width,
+          height: extractorsMeasures.height,
+        },
+      },
+      ...(fieldYield === undefined ? [] : yieldLine()),
+      ...headerButtons({
+        ctx,
+        buttons,
+        right: bbox.width - BOX_PADDING,
+        y: BOX_PADDING + headerHeight / 2 - HEADER_BUTTON_SIZE / 2,
+        focusedElement,
+      }),
+    ],
+  }
+
+  function yieldInput(fieldYield: number): ExternalElement {
+    return {
+      tag: "input",
+      title: `Yield of the ${name} field, in percent`,
+      value: String(fieldYield),
+      commit(value) {
+        const percent = Number(value)
+        if (value.trim() === "" || !Number.isFinite(percent)) return
+        if (percent <= 0 || percent === fieldYield) return
+        return {
+          type: "set-extractor",
+          node: node.id,
+          extractor: { type: "pumpjack", yield: percent },
+        }
+      },
+    }
+  }
+
+  function caret(): Widget {
+    return {
+      type: "box",
+      bg: TEXT_COLOR,
+      layout: {
+        x: yieldFieldX + FIELD_PADDING + yieldValueMeasures.width,
+        y: yieldLineY + FIELD_PADDING,
+        width: CARET_WIDTH,
+        height: BODY_FONT.size,
+      },
+    }
+  }
+
+  function yieldLine(): Widget[] {
+    const centered = (height: number) =>
+      yieldLineY + yieldField.height / 2 - height / 2
+    return [
+      {
+        type: "text",
+        text: yieldLabel,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: yieldLabelMeasures.baseline,
+        layout: {
+          x: BOX_PADDING + BOX_CONTENT_PADDING,
+          y: centered(yieldLabelMeasures.height),
+          width: yieldLabelMeasures.width,
+          height: yieldLabelMeasures.height,
+        },
+      },
+      {
+        type: "box",
+        bg: yieldFocused ? FOCUS_COLOR : BODY_BG,
+        layout: {
+          x: yieldFieldX - FOCUS_RING_SIZE / 2,
+          y: yieldLineY - FOCUS_RING_SIZE / 2,
+          width: yieldField.width + FOCUS_RING_SIZE,
+          height: yieldField.height + FOCUS_RING_SIZE,
+        },
+      },
+      {
+        type: "box",
+        bg: FIELD_BG,
+        interactivity: { focus: "yield" },
+        layout: {
+          x: yieldFieldX,
+          y: yieldLineY,
+          width: yieldField.width,
+          height: yieldField.height,
+        },
+      },
+      {
+        type: "text",
+        text: yieldValue,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: yieldValueMeasures.baseline,
+        layout: {
+          x: yieldFieldX + FIELD_PADDING,
+          y: centered(yieldValueMeasures.height),
+          width: yieldValueMeasures.width,
+          height: yieldValueMeasures.height,
+        },
+      },
+      ...(yieldFocused ? [caret()] : []),
+      {
+        type: "text",
+        text: yieldUnit,
+        font: BODY_FONT,
+        color: TEXT_COLOR,
+        baseline: yieldUnitMeasures.baseline,
+        layout: {
+          x: yieldFieldX + yieldField.width,
+          y: centered(yieldUnitMeasures.height),
+          width: yieldUnitMeasures.width,
+          height: yieldUnitMeasures.height,
+        },
+      },
+    ]
+  }
+}
+
+type SwitchMachine = Extract<Action, { type: "set-machine" }>
+
+/**
+ * Switches the node to the machine after its own among those that can make
+ * the recipe, back to the first after the last. None when only one can.
+ */
+function nextMachine(
+  node: RootNode | IntermediateNode,
+): SwitchMachine | undefined {
+  const options = madeIn(node.recipe)
+  if (options.length < 2) return
+  const name = machineItem(node.machine).name
+  const current = options.findIndex(option => machineItem(option).name === name)
+  const machine = options[(current + 1) % options.length]!
+  return { type: "set-machine", node: node.id, machine }
+}
+
+function machineElements(
+  name: string,
+  switchMachine?: SwitchMachine,
+): Record<string, ExternalElement> {
+  if (!switchMachine) return {}
+  return {
+    machine: {
+      tag: "button",
+      title: `Make ${name} in ${machineName(switchMachine.machine)} instead`,
+      activate: switchMachine,
+    },
+  }
+}
+
+type MachineButtonProps = {
+  machine: Machine
+  x: number
+  y: number
+  switchMachine?: SwitchMachine
+  focused: boolean
+}
+
+/** Icon of the node's machine, switching to the next machine when clicked */
+function machineButton({
+  machine,
+  x,
+  y,
+  switchMachine,
+  focused,
+}: MachineButtonProps): Widget[] {
+  const size = BUTTON_PADDING * 2 + ICON_SIZE
+  const focusRing: Widget = {
+    type: "box",
+    bg: focused ? FOCUS_COLOR : BODY_BG,
+    layout: {
+      x: x - FOCUS_RING_SIZE / 2,
+      y: y - FOCUS_RING_SIZE / 2,
+      width: size + FOCUS_RING_SIZE,
+      height: size + FOCUS_RING_SIZE,
+    },
+  }
+  return [
+    ...(switchMachine ? [focusRing] : []),
+    {
+      type: "box",
+      bg: BUTTON_BG,
+      ...(switchMachine ? { interactivity: { click: switchMachine } } : {}),
+      layout: { x, y, width: size, height: size },
+    },
+    {
+      type: "icon",
+      name: iconNameForItem(machineItem(machine)),
+      layout: {
+        x: x + BUTTON_PADDING,
+        y: y + BUTTON_PADDING,
+        width: ICON_SIZE,
+        height: ICON_SIZE,
+      },
+    },
+  ]
+}
+
+/** Small square button in the top right corner of a node */
+type HeaderButton = {
+  /** Name of the external element standing in for the button */
+  key: string
+  glyph: string
+  title: string
+  action: Action
+}
+
+function expandAllButton(node: RecipeNode, name: string): HeaderButton {
+  return {
+    key: "expand-all",
+    glyph: "»",
+    title: `Expand everything below ${name}`,
+    action: { type: "expand-all", node: node.id },
+  }
+}
+
+function supplyButton(
+  node: TerminalNode,
+  name: string,
+  supplied?: boolean,
+): HeaderButton {
+  return {
+    key: "supplied",
+    glyph: "≡",
+    title: supplied
+      ? `Produce ${name} in the plan`
+      : `Take ${name} from the bus instead of producing it`,
+    action: { type: "set-supplied", item: node.item, supplied: !supplied },
+  }
+}
+
+/** None for machines without module slots, beacons don't reach them either */
+function modulesButton(
+  node: RootNode | IntermediateNode,
+  name: string,
+): HeaderButton[] {
+  if (moduleSlots(node.machine) === 0) return []
+  return [
+    {
+      key: "modules",
+      glyph: "◈",
+      title: `Modules and beacons of ${name}`,
+      action: { type: "set-modules", node: node.id },
+    },
+  ]
+}
+
+/** Plans the extraction of a raw resource, none for other items */
+function extractButton(node: TerminalNode, name: string): HeaderButton[] {
+  const extractor = extractorsFor(node.item)?.[0]
+  if (!extractor) return []
+  return [
+    {
+      key: "extract",
+      glyph: "⛏",
+      title: `Extract ${name} in the plan`,
+      action: { type: "set-extractor", node: node.id, extractor },
+    },
+  ]
+}
+
+/** Switches to the next kind of extractor, none when there is only one */
+function extractorButton(node: ResourceNode, name: string): HeaderButton[] {
+  const extractors = extractorsFor(node.item) ?? []
+  if (extractors.length < 2) return []
+  const current = extractors.findIndex(
+    extractor => extractor.type === node.extractor.type,
+  )
+  const next = extractors[(current + 1) % extractors.length]!
+  return [
+    {
+      key: "extractor",
+      glyph: "⛏",
+      title: `Extract ${name} with ${extractorName(next)} instead`,
+      action: { type: "set-extractor", node: node.id, extractor: next },
+    },
+  ]
+}
+
+function stopExtractingButton(node: ResourceNode, name: string): HeaderButton {
+  return {
+    key: "stop-extracting",
+    glyph: "×",
+    title: `Stop extracting ${name} in the plan`,
+    action: { type: "set-extractor", node: node.id },
+  }
+}
+
+function splitButton(node: RecipeNode, name: string): HeaderButton {
+  return {
+    key: "unmerge",
+    glyph: "÷",
+    title: `Split ${name} between its consumers`,
+    action: { type: "unmerge", node: node.id },
+  }
+}
+
+function headerButtonsWidth(buttons: HeaderButton[]) {
+  return buttons.length * (HEADER_BUTTON_MARGIN + HEADER_BUTTON_SIZE)
+}
+
+function headerButtonElements(
+  buttons: HeaderButton[],
+): Record<string, ExternalElement> {
+  return Object.fromEntries(
+    buttons.map(({ key, title, action }) => [
+      key,
+      { tag: "button", title, activate: action },
+    ]),
+  )
+}
+
+type HeaderButtonsProps = {
+  ctx: CanvasRenderingContext2D
+  buttons: HeaderButton[]
+  /** Where the right edge of the last button goes */
+  right: number
+  y: number
+  focusedElement?: string
+}
+
+function headerButtons({
+  ctx,
+  buttons,
+  right,
+  y,
+  focusedElement,
+}: HeaderButtonsProps): Widget[] {
+  const left = right - headerButtonsWidth(buttons) + HEADER_BUTTON_MARGIN
+  return buttons.flatMap(({ key, glyph, action }, i) => {
+    const x = left + i * (HEADER_BUTTON_SIZE + HEADER_BUTTON_MARGIN)
+    const glyphMeasures = text(ctx, glyph, computedFonts.body)
+    return [
+      {
+        type: "box",
+        bg: focusedElement === key ? FOCUS_COLOR : BOX_BG,
+        layout: {
+          x: x - FOCUS_RING_SIZE,
+          y: y - FOCUS_RING_SIZE,
+          width: HEADER_BUTTON_SIZE + FOCUS_RING_SIZE * 2,
+          height: HEADER_BUTTON_SIZE + FOCUS_RING_SIZE * 2,
+        },
+      },
+      {
+        type: "box",
+        bg: HEADER_BUTTON_BG,
+        interactivity: { click: action },
+        layout: { x, y, width: HEADER_BUTTON_SIZE, height: HEADER_BUTTON_SIZE },
+      },
+      {
+        type: "text",
+        text: glyph,
+        font: BODY_FONT,
+        color: COLLAPSE_BUTTON_COLOR,
+        baseline: glyphMeasures.baseline,
+        layout: {
+          x: x + HEADER_BUTTON_SIZE / 2 - glyphMeasures.width / 2,
+          y: y + HEADER_BUTTON_SIZE / 2 - glyphMeasures.height / 2,
+          width: glyphMeasures.width,
+          height: glyphMeasures.height,
+        },
+      },
+    ]
+  })
+}
+
 type BoxProps<Node> = {
   ctx: CanvasRenderingContext2D
   node: Node
   focusedElement?: string
+  /** Draft value of the focused element, when it is an input */
+  editedValue?: string
+  /** Node has several consumers and can be split between them */
+  merged?: boolean
+  /** Item of the terminal node comes from outside of the plan */
+  supplied?: boolean
+  /** Levels of mining productivity research of the plan */
+  miningResearch?: number
 }
 
 function intermediateNode({
   ctx,
   node,
   focusedElement,
+  merged,
 }: BoxProps<IntermediateNode>): LayoutResult {
   const name = recipeName(node.recipe)
   const titleMeasures = text(ctx, name, computedFonts.title)
   const headerHeight = Math.max(titleMeasures.height, ICON_SIZE)
+  const buttons = [
+    expandAllButton(node, name),
+    ...modulesButton(node, name),
+    ...(merged ? [splitButton(node, name)] : []),
+  ]
 
-  const productionLine = `Desired production rate: ${node.desiredProduction} per second`
+  const productionLine = `Desired production rate: ${numberFormat.format(
+    node.desiredProduction,
+  )} per second`
   const productionLineMeasures = text(ctx, productionLine, computedFonts.body)
 
   const craftingTime = `Crafting time: ${node.recipe.energyRequired}s`
@@ -567,11 +1526,17 @@ function intermediateNode({
     node.recipe,
     node.desiredProduction,
     node.machine,
+    node.item,
+    node.modules,
   )
   const machinesRequiredText = `${machineName(
     node.machine,
-  )} required: ${numberFormat.format(machinesRequired)}`
-  const machineIcon = iconNameForItem(machineItem(node.machine))
+  )} required: ${numberFormat.format(machinesRequired)} (${powerText(
+    node.machine,
+    machinesRequired,
+    node.modules,
+  )})`
+  const switchMachine = nextMachine(node)
   const machinesRequiredMeasures = text(
     ctx,
     machinesRequiredText,
@@ -588,12 +1553,30 @@ function intermediateNode({
     BUTTON_MARGIN +
     machinesRequiredMeasures.width
 
+  const modules = modulesSection(ctx, node)
+  const modulesY =
+    BOX_PADDING +
+    headerHeight +
+    BOX_CONTENT_MARGIN +
+    BOX_CONTENT_PADDING +
+    productionLineMeasures.height +
+    lineMargin(BODY_FONT) +
+    craftingTimeMeasures.height +
+    lineMargin(BODY_FONT) +
+    assemblerLineHeight +
+    lineMargin(BODY_FONT)
+  const outputs = outputsSection(ctx, node)
+  const outputsY =
+    modulesY + (modules.height > 0 ? modules.height + lineMargin(BODY_FONT) : 0)
+
   const bodyWidth =
     BOX_CONTENT_PADDING * 2 +
     Math.max(
       productionLineMeasures.width,
       craftingTimeMeasures.width,
       assemblerLineWidth,
+      modules.width,
+      outputs.width,
     )
   const bodyHeight =
     BOX_CONTENT_PADDING * 2 +
@@ -601,7 +1584,9 @@ function intermediateNode({
     lineMargin(BODY_FONT) +
     craftingTimeMeasures.height +
     lineMargin(BODY_FONT) +
-    assemblerLineHeight
+    assemblerLineHeight +
+    (modules.height > 0 ? lineMargin(BODY_FONT) + modules.height : 0) +
+    (outputs.height > 0 ? lineMargin(BODY_FONT) + outputs.height : 0)
 
   const headerWidth =
     BOX_PADDING * 2 +
@@ -609,7 +1594,8 @@ function intermediateNode({
     ICON_SIZE +
     titleMeasures.width +
     COLLAPSE_BUTTON_MARGIN +
-    COLLAPSE_BUTTON_SIZE
+    COLLAPSE_BUTTON_SIZE +
+    headerButtonsWidth(buttons)
 
   const bbox = {
     width: BOX_PADDING * 2 + Math.max(headerWidth, bodyWidth),
@@ -630,6 +1616,8 @@ function intermediateNode({
         title: `Collapse ${name}`,
         activate: { type: "collapse", node: node.id },
       },
+      ...machineElements(name, switchMachine),
+      ...headerButtonElements(buttons),
     },
     contents: [
       {
@@ -712,6 +1700,17 @@ function intermediateNode({
           height: COLLAPSE_MINUS_HEIGHT,
         },
       },
+      ...headerButtons({
+        ctx,
+        buttons,
+        right:
+          bbox.width -
+          BOX_PADDING -
+          COLLAPSE_BUTTON_SIZE -
+          HEADER_BUTTON_MARGIN,
+        y: BOX_PADDING + COLLAPSE_BUTTON_SIZE / 2 - HEADER_BUTTON_SIZE / 2,
+        focusedElement,
+      }),
       {
         type: "text",
         text: productionLine,
@@ -748,47 +1747,23 @@ function intermediateNode({
           height: craftingTimeMeasures.height,
         },
       },
-      {
-        type: "box",
-        bg: BUTTON_BG,
-        layout: {
-          x: BOX_PADDING + BOX_CONTENT_PADDING,
-          y:
-            BOX_PADDING +
-            headerHeight +
-            BOX_CONTENT_MARGIN +
-            BOX_CONTENT_PADDING +
-            productionLineMeasures.height +
-            lineMargin(BODY_FONT) +
-            craftingTimeMeasures.height +
-            lineMargin(BODY_FONT) +
-            assemblerLineHeight / 2 -
-            (BUTTON_PADDING * 2 + ICON_SIZE) / 2,
-          width: BUTTON_PADDING * 2 + ICON_SIZE,
-          height: BUTTON_PADDING * 2 + ICON_SIZE,
-        },
-      },
-      {
-        type: "icon",
-        name: machineIcon,
-        layout: {
-          x: BOX_PADDING + BOX_CONTENT_PADDING + BUTTON_PADDING,
-          y:
-            BOX_PADDING +
-            headerHeight +
-            BOX_CONTENT_MARGIN +
-            BOX_CONTENT_PADDING +
-            productionLineMeasures.height +
-            lineMargin(BODY_FONT) +
-            craftingTimeMeasures.height +
-            lineMargin(BODY_FONT) +
-            assemblerLineHeight / 2 -
-            (BUTTON_PADDING * 2 + ICON_SIZE) / 2 +
-            BUTTON_PADDING,
-          width: ICON_SIZE,
-          height: ICON_SIZE,
-        },
-      },
+      ...machineButton({
+        machine: node.machine,
+        x: BOX_PADDING + BOX_CONTENT_PADDING,
+        y:
+          BOX_PADDING +
+          headerHeight +
+          BOX_CONTENT_MARGIN +
+          BOX_CONTENT_PADDING +
+          productionLineMeasures.height +
+          lineMargin(BODY_FONT) +
+          craftingTimeMeasures.height +
+          lineMargin(BODY_FONT) +
+          assemblerLineHeight / 2 -
+          (BUTTON_PADDING * 2 + ICON_SIZE) / 2,
+        switchMachine,
+        focused: focusedElement === "machine",
+      }),
       {
         type: "text",
         text: machinesRequiredText,
@@ -817,6 +1792,8 @@ function intermediateNode({
           height: machinesRequiredMeasures.height,
         },
       },
+      ...modules.widgets(BOX_PADDING + BOX_CONTENT_PADDING, modulesY),
+      ...outputs.widgets(BOX_PADDING + BOX_CONTENT_PADDING, outputsY),
     ],
   }
 }
@@ -825,15 +1802,36 @@ type LayoutNodeArgs = {
   ctx: CanvasRenderingContext2D
   node: RecipeNode
   focusedElement?: string
+  editedValue?: string
+  merged?: boolean
+  supplied?: boolean
+  miningResearch?: number
 }
 
-export function node({ ctx, node, focusedElement }: LayoutNodeArgs) {
+export function node({
+  ctx,
+  node,
+  focusedElement,
+  editedValue,
+  merged,
+  supplied,
+  miningResearch,
+}: LayoutNodeArgs) {
   switch (node.type) {
     case "root":
-      return rootBox({ ctx, node, focusedElement })
+      return rootBox({ ctx, node, focusedElement, editedValue })
     case "terminal":
-      return terminalBox({ ctx, node, focusedElement })
+      return terminalBox({ ctx, node, focusedElement, merged, supplied })
     case "intermediate":
-      return intermediateNode({ ctx, node, focusedElement })
+      return intermediateNode({ ctx, node, focusedElement, merged })
+    case "resource":
+      return resourceBox({
+        ctx,
+        node,
+        focusedElement,
+        editedValue,
+        merged,
+        miningResearch,
+      })
   }
 }
@@ -0,0 +1,161 @@
+import {
+  Item,
+  Recipe,
+  itemFromKey,
+  itemKey,
+  recipeMap,
+  recipeName,
+  recipes,
+  t,
+} from "./recipe"
+import { ExpandPreferences, savePreferences } from "./preferences"
+
+export type ExpandSettingsProps = {
+  dialog: HTMLDialogElement
+  preferences: ExpandPreferences
+}
+
+/**
+ * Dialog listing items that expanding everything leaves alone, the recipes it
+ * picks for items made by several recipes and the recipes that solving the
+ * plan leaves out. Every change is saved right away.
+ */
+export function initExpandSettings({
+  dialog,
+  preferences,
+}: ExpandSettingsProps) {
+  const stopList = dialog.querySelector(".stop-items") as HTMLUListElement
+  const recipeList = dialog.querySelector(
+    ".recipe-preferences",
+  ) as HTMLUListElement
+  const disabledList = dialog.querySelector(
+    ".disabled-recipes",
+  ) as HTMLUListElement
+  const addForm = dialog.querySelector(".settings-add") as HTMLFormElement
+  const itemOptions = dialog.querySelector("datalist") as HTMLDataListElement
+  const disableForm = dialog.querySelector(
+    ".settings-disable",
+  ) as HTMLFormElement
+  const recipeOptions = dialog.querySelector(
+    "#disable-recipe-options",
+  ) as HTMLDataListElement
+
+  // Only items some recipe makes can be expanded, so only those can be stopped at
+  const itemsByLabel = new Map<string, Item>()
+  for (const recipe of recipes) {
+    for (const { name, type } of recipe.results) {
+      itemsByLabel.set(itemLabel({ name, type }), { name, type })
+    }
+  }
+  itemOptions.replaceChildren(
+    ...Array.from(itemsByLabel.keys(), label => {
+      const option = document.createElement("option")
+      option.value = label
+      return option
+    }),
+  )
+
+  const recipesByLabel = new Map<string, Recipe>()
+  for (const recipe of recipes) recipesByLabel.set(recipeName(recipe), recipe)
+  recipeOptions.replaceChildren(
+    ...Array.from(recipesByLabel.keys(), label => {
+      const option = document.createElement("option")
+      option.value = label
+      return option
+    }),
+  )
+
+  addForm.addEventListener("submit", ev => {
+    ev.preventDefault()
+    const input = addForm.elements.namedItem("item") as HTMLInputElement
+    const item = itemsByLabel.get(input.value.trim())
+    if (!item) {
+      input.setCustomValidity("Pick an item from the list")
+      input.reportValidity()
+      return
+    }
+    input.setCustomValidity("")
+    input.value = ""
+    preferences.stopAt.add(itemKey(item))
+    savePreferences(preferences)
+    render()
+  })
+
+  disableForm.addEventListener("submit", ev => {
+    ev.preventDefault()
+    const input = disableForm.elements.namedItem("recipe") as HTMLInputElement
+    const recipe = recipesByLabel.get(input.value.trim())
+    if (!recipe) {
+      input.setCustomValidity("Pick a recipe from the list")
+      input.reportValidity()
+      return
+    }
+    input.setCustomValidity("")
+    input.value = ""
+    preferences.disabledRecipes.add(recipe.name)
+    savePreferences(preferences)
+    render()
+  })
+
+  function render() {
+    stopList.replaceChildren(
+      ...Array.from(preferences.stopAt, key =>
+        settingsRow(labelForKey(key), () => {
+          preferences.stopAt.delete(key)
+        }),
+      ),
+    )
+    recipeList.replaceChildren(
+      ...Array.from(preferences.recipes, ([key, name]) => {
+        const recipe = recipeMap.get(name)
+        const recipeLabel = recipe ? recipeName(recipe) : name
+        return settingsRow(`${labelForKey(key)}: ${recipeLabel}`, () => {
+          preferences.recipes.delete(key)
+        })
+      }),
+    )
+    disabledList.replaceChildren(
+      ...Array.from(preferences.disabledRecipes, name => {
+        const recipe = recipeMap.get(name)
+        return settingsRow(recipe ? recipeName(recipe) : name, () => {
+          preferences.disabledRecipes.delete(name)
+        })
+      }),
+    )
+  }
+
+  function settingsRow(label: string, remove: () => void) {
+    const row = document.createElement("li")
+    row.className = "settings-row"
+    const text = document.createElement("span")
+    text.textContent = label
+    const removeButton = document.createElement("button")
+    removeButton.type = "button"
+    removeButton.className = "settings-remove"
+    removeButton.textContent = "Remove"
+    removeButton.addEventListener("click", () => {
+      remove()
+      savePreferences(preferences)
+      render()
+    })
+    row.append(text, removeButton)
+    return row
+  }
+
+  return {
+    open() {
+      render()
+      dialog.showModal()
+    },
+  }
+}
+
+function itemLabel(item: Item) {
+  const name = t(item.name) ?? item.name
+  return item.type === "fluid" ? `${name} (fluid)` : name
+}
+
+function labelForKey(key: string) {
+  const item = itemFromKey(key)
+  return item ? itemLabel(item) : key
+}
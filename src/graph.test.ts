@@ -0,0 +1,436 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import {
+  Action,
+  NodeID,
+  RecipeGraph,
+  TerminalNode,
+  addRootNode,
+  canMerge,
+  canUnmerge,
+  collapseNode,
+  expandAll,
+  expandNode,
+  importGraph,
+  initialGraph,
+  isLeaf,
+  mergeDuplicates,
+  mergeNodes,
+  setDesiredProduction,
+  setExtractor,
+  setMachine,
+  setModules,
+  unmergeNode,
+} from "./graph"
+import { diffGraphs, initHistory } from "./history"
+import { Machine, madeIn, moduleSlots } from "./machine"
+import { ModuleSetup, allModules, allowsModule } from "./modules"
+import { amountOf, nodeCrafts, nodeProduction } from "./rates"
+import { Item, itemEq, recipeMap, recipes, recipesForResult } from "./recipe"
+import { extractorsFor } from "./resource"
+import Result from "./result"
+import { validateGraph } from "./validate"
+
+type Operation =
+  | Extract<
+      Action,
+      {
+        type:
+          | "expand"
+          | "expand-all"
+          | "collapse"
+          | "merge"
+          | "unmerge"
+          | "merge-duplicates"
+          | "set-rate"
+          | "set-extractor"
+          | "set-machine"
+          | "add-root"
+      }
+    >
+  // Picking modules in the dialog is not part of it, only the change itself
+  | { type: "set-modules"; node: NodeID; modules: ModuleSetup }
+  // Plan of a single recipe, which the trace names instead of spelling out
+  | (Extract<Action, { type: "import" }> & { recipe: string })
+
+const SEEDS = Array.from({ length: 20 }, (_, i) => i + 1)
+const STEPS = 50
+
+/**
+ * Applies seeded random sequences of expands, collapses, merges and unmerges,
+ * rate, module, machine and extractor changes, added products and imported
+ * plans to plans for random recipes. Operations are
+ * free to refuse, but they must never report an inconsistency, change the
+ * graph they were given or leave it failing `validateGraph`. Undoing every
+ * step brings back the graph from before it, and redoing it the one after.
+ */
+describe("graph operations", () => {
+  test.each(SEEDS)("keep the graph consistent, seed %i", seed => {
+    const random = mulberry32(seed)
+    const root = pick(random, recipes)!
+    const initial = initialGraph(root)
+    if (initial.err) throw initial.error
+    let graph = initial.value
+    const history = initHistory({ limit: STEPS })
+    const operations: Operation[] = []
+    // Enough to replay whatever broke
+    const trace = () =>
+      JSON.stringify({ seed, root: root.name, operations }, (key, value) =>
+        key === "graph" ? undefined : value,
+      )
+
+    for (let step = 0; step < STEPS; step++) {
+      const operation = randomOperation(random, graph)
+      if (!operation) break
+      operations.push(operation)
+
+      const snapshot = structuredClone(graph)
+      const res = apply(graph, operation)
+      expect(diffGraphs(snapshot, graph, operation), trace()).toBeUndefined()
+      if (res.err) {
+        expect(isInconsistency(res.error), trace()).toBe(false)
+        continue
+      }
+      expect(validateGraph(res.value), trace()).toEqual([])
+
+      const patch = diffGraphs(graph, res.value, operation)
+      if (!patch) continue
+      history.record(patch)
+      const undone = history.undo(res.value)!
+      expect(
+        diffGraphs(undone.graph, graph, operation),
+        trace(),
+      ).toBeUndefined()
+      const redone = history.redo(undone.graph)!
+      expect(
+        diffGraphs(redone.graph, res.value, operation),
+        trace(),
+      ).toBeUndefined()
+      graph = redone.graph
+    }
+  })
+})
+
+describe("updated graphs", () => {
+  test("share the nodes an operation left alone", () => {
+    const gears = recipeMap.get("iron-gear-wheel")!
+    const cables = recipeMap.get("copper-cable")!
+    const initial = initialGraph(gears)
+    if (initial.err) throw initial.error
+    const added = addRootNode(initial.value, cables, 2)
+    if (added.err) throw added.error
+    const res = setDesiredProduction(added.value, 0 as NodeID, 4)
+    if (res.err) throw res.error
+
+    const gearNodes = new Set([
+      0 as NodeID,
+      ...added.value.downEdges.get(0 as NodeID)!,
+    ])
+    for (const [id, node] of res.value.nodes) {
+      if (gearNodes.has(id)) expect(node).not.toBe(added.value.nodes.get(id))
+      else expect(node).toBe(added.value.nodes.get(id))
+    }
+  })
+})
+
+describe("setModules", () => {
+  test("keeps productivity modules to intermediate products", () => {
+    // Assembling machine 1 has no module slots at all
+    const assembler2 = (): Machine => ({ type: "assembly-machine", tier: 2 })
+    const pipes = initialGraph(recipeMap.get("pipe")!, 1, assembler2)
+    if (pipes.err) throw pipes.error
+    const root = 0 as NodeID
+    const productivity: ModuleSetup = {
+      modules: ["productivity-module"],
+      beacons: 0,
+    }
+
+    const refused = setModules(pipes.value, root, productivity)
+    expect(refused.err && refused.error).toMatchObject({
+      kind: "disallowed-module",
+      module: "productivity-module",
+    })
+    const sped = setModules(pipes.value, root, {
+      modules: ["speed-module"],
+      beacons: 0,
+    })
+    expect(sped.err).toBe(false)
+
+    const gears = initialGraph(recipeMap.get("iron-gear-wheel")!, 1, assembler2)
+    if (gears.err) throw gears.error
+    expect(setModules(gears.value, root, productivity).err).toBe(false)
+  })
+})
+
+describe("cyclic plans", () => {
+  test("settle Kovarex enrichment at its net output", () => {
+    const graph = closeLoop("kovarex-enrichment-process", 0.1, URANIUM_235)
+    const root = graph.nodes.get(0 as NodeID)!
+    if (root.type !== "root") throw new Error("Root went missing")
+
+    // Every craft nets a single uranium-235 out of the 40 it takes
+    expect(nodeCrafts(root)).toBeCloseTo(0.1)
+    expect(nodeProduction(root)).toBeCloseTo(4.1)
+    expect(amountOf(root.surplus, URANIUM_238)).toBeCloseTo(0.2)
+    expect(amountOf(root.surplus, URANIUM_235)).toBeCloseTo(0)
+    expect(terminal(graph, URANIUM_238)?.requiredAmount).toBeCloseTo(0.5)
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  test("settle coal liquefaction feeding itself heavy oil", () => {
+    const graph = closeLoop("coal-liquefaction", 65, HEAVY_OIL)
+    const root = graph.nodes.get(0 as NodeID)!
+    if (root.type !== "root") throw new Error("Root went missing")
+
+    // 90 heavy oil per craft, 25 of which go back in
+    expect(nodeCrafts(root)).toBeCloseTo(1)
+    expect(nodeProduction(root)).toBeCloseTo(90)
+    expect(amountOf(root.surplus, LIGHT_OIL)).toBeCloseTo(20)
+    expect(amountOf(root.surplus, PETROLEUM_GAS)).toBeCloseTo(10)
+    expect(terminal(graph, COAL)?.requiredAmount).toBeCloseTo(10)
+    expect(terminal(graph, STEAM)?.requiredAmount).toBeCloseTo(50)
+    expect(validateGraph(graph)).toEqual([])
+  })
+})
+
+describe("expandAll", () => {
+  test("stops at raw resources that barrels can be emptied into", () => {
+    const recipe = recipeMap.get("chemical-science-pack")
+    if (!recipe) throw new Error("Missing recipe chemical-science-pack")
+    const initial = initialGraph(recipe)
+    if (initial.err) throw initial.error
+    const res = expandAll(initial.value, 0 as NodeID, {
+      stopAt: () => false,
+      preferredRecipe: item =>
+        itemEq(item, PETROLEUM_GAS) ? "advanced-oil-processing" : undefined,
+    })
+    if (res.err) throw res.error
+
+    const nodes = Array.from(res.value.graph.nodes.values())
+    const recipeNames = nodes.flatMap(node =>
+      isLeaf(node) ? [] : [node.recipe.name],
+    )
+    expect(recipeNames).toContain("advanced-oil-processing")
+    expect(recipeNames.filter(name => name.includes("barrel"))).toEqual([])
+    expect(terminal(res.value.graph, CRUDE_OIL)).toBeDefined()
+    expect(terminal(res.value.graph, WATER)).toBeDefined()
+    expect(res.value.undecided).toEqual([])
+    expect(validateGraph(res.value.graph)).toEqual([])
+  })
+})
+
+const URANIUM_235: Item = { name: "uranium-235", type: "item" }
+const URANIUM_238: Item = { name: "uranium-238", type: "item" }
+const COAL: Item = { name: "coal", type: "item" }
+const HEAVY_OIL: Item = { name: "heavy-oil", type: "fluid" }
+const LIGHT_OIL: Item = { name: "light-oil", type: "fluid" }
+const PETROLEUM_GAS: Item = { name: "petroleum-gas", type: "fluid" }
+const STEAM: Item = { name: "steam", type: "fluid" }
+const CRUDE_OIL: Item = { name: "crude-oil", type: "fluid" }
+const WATER: Item = { name: "water", type: "fluid" }
+
+/** Plan for the recipe with its own product fed back into its ingredient */
+function closeLoop(name: string, rate: number, item: Item) {
+  const recipe = recipeMap.get(name)
+  if (!recipe) throw new Error(`Missing recipe ${name}`)
+  const initial = initialGraph(recipe, rate)
+  if (initial.err) throw initial.error
+  const input = terminal(initial.value, item)!
+  const merged = mergeNodes(initial.value, input.id, 0 as NodeID)
+  if (merged.err) throw merged.error
+  expect(terminal(merged.value, item)).toBeUndefined()
+  return merged.value
+}
+
+function terminal(graph: RecipeGraph, item: Item) {
+  return Array.from(graph.nodes.values()).find(
+    (node): node is TerminalNode =>
+      node.type === "terminal" && itemEq(node.item, item),
+  )
+}
+
+function randomOperation(
+  random: () => number,
+  graph: RecipeGraph,
+): Operation | undefined {
+  const nodes = Array.from(graph.nodes.values())
+  const expandable = nodes.flatMap(node =>
+    node.type === "terminal" && node.producedByRecipes.length > 0 ? [node] : [],
+  )
+  const collapsible = nodes.filter(node => node.type === "intermediate")
+  const producing = nodes.flatMap(node =>
+    !isLeaf(node) && moduleSlots(node.machine) > 0 ? [node] : [],
+  )
+  const switchable = nodes.flatMap(node =>
+    !isLeaf(node) && madeIn(node.recipe).length > 1 ? [node] : [],
+  )
+  const extractable = nodes.flatMap(node =>
+    isLeaf(node) && extractorsFor(node.item) ? [node] : [],
+  )
+  const mergeable = nodes.flatMap(a =>
+    nodes.flatMap(b => (a.id < b.id && canMerge(a, b) ? [[a.id, b.id]] : [])),
+  )
+  const unmergeable = nodes.filter(node => canUnmerge(graph, node.id))
+  const roots = nodes.filter(node => node.type === "root")
+
+  const choices: (() => Operation)[] = [
+    () => ({ type: "merge-duplicates" }),
+    () => ({
+      type: "add-root",
+      recipe: pick(random, recipes)!.name,
+      rate: Math.ceil(random() * 5),
+    }),
+    () => {
+      const recipe = pick(random, recipes)!
+      const other = initialGraph(recipe)
+      if (other.err) throw other.error
+      return { type: "import", graph: other.value, recipe: recipe.name }
+    },
+  ]
+  if (expandable.length > 0) {
+    choices.push(() => {
+      const node = pick(random, expandable)!
+      const recipe = pick(random, node.producedByRecipes)!
+      return { type: "expand", node: node.id, recipe: recipe.name }
+    })
+    choices.push(() => ({
+      type: "expand-all",
+      node: pick(random, nodes)!.id,
+    }))
+  }
+  if (collapsible.length > 0) {
+    choices.push(() => ({
+      type: "collapse",
+      node: pick(random, collapsible)!.id,
+    }))
+  }
+  if (mergeable.length > 0) {
+    choices.push(() => {
+      const [node, withNode] = pick(random, mergeable)!
+      return { type: "merge", node: node!, with: withNode! }
+    })
+  }
+  if (unmergeable.length > 0) {
+    choices.push(() => ({
+      type: "unmerge",
+      node: pick(random, unmergeable)!.id,
+    }))
+  }
+  if (roots.length > 0) {
+    choices.push(() => ({
+      type: "set-rate",
+      node: pick(random, roots)!.id,
+      // Zero now and then, which leaves the root idle
+      rate: Math.floor(random() * 10) / 2,
+    }))
+  }
+  if (producing.length > 0) {
+    choices.push(() => {
+      const node = pick(random, producing)!
+      const slots = Math.floor(random() * (moduleSlots(node.machine) + 1))
+      const allowed = allModules.filter(module =>
+        allowsModule(node.recipe, module),
+      )
+      const modules = Array.from(
+        { length: slots },
+        () => pick(random, allowed)!,
+      )
+      const beacons = Math.floor(random() * 9)
+      return {
+        type: "set-modules",
+        node: node.id,
+        modules: { modules, beacons },
+      }
+    })
+  }
+  if (switchable.length > 0) {
+    choices.push(() => {
+      const node = pick(random, switchable)!
+      const machine = pick(random, madeIn(node.recipe))!
+      return { type: "set-machine", node: node.id, machine }
+    })
+  }
+  if (extractable.length > 0) {
+    choices.push(() => {
+      const node = pick(random, extractable)!
+      // Sometimes goes back to a plain terminal
+      const extractor = pick(random, [...extractorsFor(node.item)!, undefined])
+      return { type: "set-extractor", node: node.id, extractor }
+    })
+  }
+  return pick(random, choices)?.()
+}
+
+function apply(
+  graph: RecipeGraph,
+  operation: Operation,
+): Result<RecipeGraph, unknown> {
+  switch (operation.type) {
+    case "expand":
+      return expandNode(graph, operation.node, operation.recipe)
+    case "expand-all": {
+      const res = expandAll(graph, operation.node, {
+        stopAt: () => false,
+        preferredRecipe: item => recipesForResult(item)[0]?.name,
+      })
+      return res.err ? res : Result.ok(res.value.graph)
+    }
+    case "collapse":
+      return collapseNode(graph, operation.node)
+    case "merge":
+      return mergeNodes(graph, operation.node, operation.with)
+    case "unmerge":
+      return unmergeNode(graph, operation.node)
+    case "merge-duplicates": {
+      const report = mergeDuplicates(graph)
+      const broken = report.failed.find(({ error }) => isInconsistency(error))
+      return broken ? Result.err(broken.error) : Result.ok(report.graph)
+    }
+    case "set-rate":
+      return setDesiredProduction(graph, operation.node, operation.rate)
+    case "add-root":
+      return addRootNode(
+        graph,
+        recipeMap.get(operation.recipe)!,
+        operation.rate,
+      )
+    case "import":
+      return importGraph(graph, operation.graph)
+    case "set-modules":
+      return setModules(graph, operation.node, operation.modules)
+    case "set-extractor":
+      return setExtractor(graph, operation.node, operation.extractor)
+    case "set-machine":
+      return setMachine(graph, operation.node, operation.machine)
+  }
+}
+
+function isInconsistency(error: unknown) {
+  for (const cause of Result.err(error).errorChain()) {
+    if (
+      typeof cause === "object" &&
+      cause &&
+      "kind" in cause &&
+      cause.kind === "inconsistent-graph"
+    ) {
+      return true
+    }
+  }
+  return false
+}
+
+function pick<T>(random: () => number, values: T[]) {
+  return values[Math.floor(random() * values.length)]
+}
+
+/** Small seeded generator, so that failures can be replayed */
+function mulberry32(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -1,6 +1,46 @@
-import { Machine, machineCount, madeIn } from "./machine";
-import { Item, Recipe, itemEq, recipesForResult } from "./recipe";
+import {
+  Machine,
+  MachineChoice,
+  PowerUse,
+  firstMachine,
+  machineCount,
+  machineItem,
+  madeIn,
+  moduleSlots,
+  powerUse,
+} from "./machine";
+import { Module, ModuleSetup, allowsModule } from "./modules";
+import {
+  Extractor,
+  extractorCount,
+  extractorPower,
+  extractorsFor,
+  isResource,
+} from "./resource";
+import {
+  ProducingNode,
+  RATE_EPSILON,
+  addItemAmount,
+  amountOf,
+  edgeRate,
+  nodeProduction,
+  nodeProduct,
+  nodeResultAmount,
+  solveLinearSystem,
+  surplus,
+} from "./rates";
+import {
+  Item,
+  ItemAmount,
+  Recipe,
+  ingredientAmount,
+  itemEq,
+  itemKey,
+  recipesForResult,
+  resultAmount,
+} from "./recipe";
 import Result, { Err, Ok, cause } from "./result";
+import type { Objective, ProductionPlan } from "./solver";
 
 export type NodeID = number & { readonly $tag: unique symbol };
 
@@ -9,7 +49,17 @@ export type RootNode = {
   type: "root";
   recipe: Recipe;
   desiredProduction: number;
+  /**
+   * Items per second of the product the node's machines make. More than the
+   * desired production when the plan feeds some of it back into itself.
+   * Recomputed along with the rest of the rates.
+   */
+  production?: number;
   machine: Machine;
+  /** Modules and beacons of the node's machines, none when left out */
+  modules?: ModuleSetup;
+  /** Outputs left over after every consumer is satisfied. Negative when short */
+  surplus: ItemAmount[];
 };
 export type AssemblerTier = 1 | 2 | 3;
 
@@ -17,8 +67,13 @@ export type IntermediateNode = {
   id: NodeID;
   type: "intermediate";
   recipe: Recipe;
+  /** Item the node was expanded for, one of the recipe results */
+  item: Item;
   machine: Machine;
+  modules?: ModuleSetup;
   desiredProduction: number;
+  /** Outputs left over after every consumer is satisfied */
+  surplus: ItemAmount[];
 };
 
 export type TerminalNode = {
@@ -29,19 +84,79 @@ export type TerminalNode = {
   producedByRecipes: Recipe[];
 };
 
-export type RecipeNode = RootNode | IntermediateNode | TerminalNode;
-export type MergableNode = IntermediateNode | TerminalNode;
+/**
+ * Terminal node of a raw resource that the plan extracts itself, with mining
+ * drills, pumpjacks or offshore pumps.
+ */
+export type ResourceNode = {
+  id: NodeID;
+  type: "resource";
+  item: Item;
+  requiredAmount: number;
+  extractor: Extractor;
+};
+
+export type RecipeNode =
+  | RootNode
+  | IntermediateNode
+  | TerminalNode
+  | ResourceNode;
+export type MergableNode = IntermediateNode | LeafNode;
+/** Node without children, whose item comes from outside of the recipes */
+export type LeafNode = TerminalNode | ResourceNode;
+
+export function isLeaf(node: RecipeNode): node is LeafNode {
+  return node.type === "terminal" || node.type === "resource";
+}
 
 export type NextNodeID = string & { readonly $tag: unique symbol };
 
+/**
+ * Graph operations never change the graph they are given. They return an
+ * updated graph instead, which shares every node and edge list it didn't
+ * change with the original. Nodes count as unchanged when their rates were
+ * recomputed to what they were.
+ */
 export type RecipeGraph = {
   nodes: Map<NodeID, RecipeNode>;
   downEdges: Map<NodeID, NodeID[]>;
   upEdges: Map<NodeID, NodeID[]>;
   nodeDepth: Map<NodeID, number>;
   nodesOnLevel: number[];
+  /**
+   * Edges leading back to a node that is upstream of their origin. These close
+   * cycles such as Kovarex enrichment and are ignored when assigning depths.
+   */
+  feedbackEdges: Map<NodeID, NodeID[]>;
+  /**
+   * How a consumer splits its demand for an item among several suppliers.
+   * Consumers without shares for an item split it equally.
+   */
+  supplyShares: Map<NodeID, SupplyShare[]>;
+  /** Where the user has placed nodes by hand. Others are laid out by level */
+  positions: Map<NodeID, Position>;
+  /**
+   * Items that come from outside of the plan, e.g. from a main bus, keyed by
+   * `itemKey`. Their terminal nodes are not expanded by expand-all.
+   */
+  suppliedItems: Set<string>;
+  /**
+   * Node ids handed out so far, the next node gets this one. Each graph
+   * numbers its nodes on its own, so nodes of another graph are given new ids
+   * when they are brought in.
+   */
+  nodesIssued: number;
+  /**
+   * Levels of mining productivity research done, each adds 10% to what
+   * drills and pumpjacks of resource nodes give.
+   */
+  miningResearch: number;
 };
 
+export type Position = { x: number; y: number };
+
+export type SupplyShare = { item: Item; supplier: NodeID; share: number };
+
 export function emptyGraph(): RecipeGraph {
   return {
     nodes: new Map(),
@@ -49,58 +164,361 @@ export function emptyGraph(): RecipeGraph {
     upEdges: new Map(),
     nodeDepth: new Map(),
     nodesOnLevel: [],
+    feedbackEdges: new Map(),
+    supplyShares: new Map(),
+    positions: new Map(),
+    suppliedItems: new Set(),
+    nodesIssued: 0,
+    miningResearch: 0,
   };
 }
 
+/**
+ * Copy of the graph for an operation to change in place. Only the maps are
+ * copied, their nodes and edge lists are shared with the original: nodes get
+ * replaced rather than changed, and edge lists go through `editEdges` first.
+ */
+function draftGraph(graph: RecipeGraph): RecipeGraph {
+  return {
+    nodes: new Map(graph.nodes),
+    downEdges: new Map(graph.downEdges),
+    upEdges: new Map(graph.upEdges),
+    nodeDepth: new Map(graph.nodeDepth),
+    nodesOnLevel: [...graph.nodesOnLevel],
+    feedbackEdges: new Map(graph.feedbackEdges),
+    supplyShares: new Map(graph.supplyShares),
+    positions: new Map(graph.positions),
+    suppliedItems: new Set(graph.suppliedItems),
+    nodesIssued: graph.nodesIssued,
+    miningResearch: graph.miningResearch,
+  };
+}
+
+/**
+ * Runs an operation that changes the graph in place on a draft of it. The
+ * graph passed in stays as it was, even if the operation bails out half-way.
+ */
+function updateGraph<E>(
+  graph: RecipeGraph,
+  operation: (draft: RecipeGraph) => Result<unknown, E>,
+): Result<RecipeGraph, E> {
+  const draft = draftGraph(graph);
+  const res = operation(draft);
+  if (res.err) return res;
+  return Result.ok(draft);
+}
+
+/**
+ * Edge list of the node that is safe to change in place. Drafts share edge
+ * lists with the graph they were made from, so the list is copied first.
+ */
+function editEdges(edges: Map<NodeID, NodeID[]>, id: NodeID) {
+  const list = edges.get(id);
+  if (!list) return;
+  const copy = [...list];
+  edges.set(id, copy);
+  return copy;
+}
+
+export function isFeedbackEdge(graph: RecipeGraph, from: NodeID, to: NodeID) {
+  return graph.feedbackEdges.get(from)?.includes(to) ?? false;
+}
+
 export type Action =
-  | { type: "expand"; node: NodeID }
+  | { type: "expand"; node: NodeID; recipe?: string }
+  | { type: "expand-all"; node: NodeID }
   | { type: "collapse"; node: NodeID }
-  | { type: "merge"; node: NodeID; with: NodeID };
+  | { type: "merge"; node: NodeID; with: NodeID }
+  | { type: "unmerge"; node: NodeID }
+  | { type: "merge-duplicates" }
+  | { type: "set-rate"; node: NodeID; rate: number }
+  | { type: "set-modules"; node: NodeID; modules?: ModuleSetup }
+  | { type: "set-machine"; node: NodeID; machine: Machine }
+  | { type: "reapply-machines" }
+  | { type: "set-extractor"; node: NodeID; extractor?: Extractor }
+  | { type: "set-mining-research"; level: number }
+  | { type: "add-root"; recipe: string; rate: number }
+  | { type: "move"; node: NodeID; position: Position }
+  | { type: "set-supplied"; item: Item; supplied: boolean }
+  | { type: "solve"; objective: Objective }
+  | { type: "import"; graph: RecipeGraph };
+
+/** NOTE: Mutates graph parameter passed in */
+function nextNodeID(graph: RecipeGraph): NodeID {
+  return graph.nodesIssued++ as NodeID;
+}
+
+export const DEFAULT_PRODUCTION_RATE = 2;
+
+export function initialGraph(
+  rootRecipe: Recipe,
+  desiredProduction = DEFAULT_PRODUCTION_RATE,
+  chooseMachine = firstMachine,
+): Result<RecipeGraph, AddRootError> {
+  const graph = emptyGraph();
+  const res = addRootInPlace(
+    graph,
+    rootRecipe,
+    desiredProduction,
+    chooseMachine,
+  );
+  if (res.err) return res;
+  return Result.ok(graph);
+}
 
-let nodesIssued = 0;
-export function nextNodeID(): NodeID {
-  return nodesIssued++ as NodeID;
+type AddRootError = { kind: "invalid-rate"; rate: number } | RateError;
+
+/**
+ * Adds another product to the plan. The new root's ingredients start as
+ * terminal nodes of their own, which may then be merged with the nodes of
+ * other roots.
+ */
+export function addRootNode(
+  graph: RecipeGraph,
+  recipe: Recipe,
+  desiredProduction: number,
+  chooseMachine = firstMachine,
+): Result<RecipeGraph, AddRootError> {
+  return updateGraph(graph, (draft) =>
+    addRootInPlace(draft, recipe, desiredProduction, chooseMachine),
+  );
 }
 
-export function initialGraph(rootRecipe: Recipe): RecipeGraph {
+/** NOTE: Mutates graph parameter passed in */
+function addRootInPlace(
+  graph: RecipeGraph,
+  recipe: Recipe,
+  desiredProduction: number,
+  chooseMachine: MachineChoice,
+): Result<NodeID, AddRootError> {
+  if (!Number.isFinite(desiredProduction) || desiredProduction < 0)
+    return Result.err({ kind: "invalid-rate", rate: desiredProduction });
+
   const rootNode: RootNode = {
-    id: nextNodeID(),
+    id: nextNodeID(graph),
     type: "root",
-    recipe: rootRecipe,
-    desiredProduction: 2,
-    machine: madeIn(rootRecipe)[0],
+    recipe,
+    desiredProduction,
+    machine: chooseMachine(recipe),
+    surplus: [],
   };
 
-  const craftingTime = rootRecipe.energyRequired;
-  const assemblers = machineCount(rootRecipe, 2, rootNode.machine);
-
-  const children: RecipeNode[] = [];
-  for (const { amount, ...item } of rootRecipe.ingredients) {
+  const children: TerminalNode[] = [];
+  for (const { amount, ...item } of recipe.ingredients) {
     children.push({
-      id: nextNodeID(),
+      id: nextNodeID(graph),
       type: "terminal",
       item: item,
-      requiredAmount: (assemblers * amount) / craftingTime,
+      requiredAmount: edgeRate(rootNode, item),
       producedByRecipes: recipesForResult(item),
     });
   }
 
-  const nodeDepth = new Map(children.map((node) => [node.id, 1]));
-  nodeDepth.set(rootNode.id, 0);
-
-  const nodes = new Map();
-  nodes.set(rootNode.id, rootNode);
+  graph.nodes.set(rootNode.id, rootNode);
+  graph.nodeDepth.set(rootNode.id, 0);
+  graph.downEdges.set(
+    rootNode.id,
+    children.map((node) => node.id),
+  );
   for (const node of children) {
-    nodes.set(node.id, node);
+    graph.nodes.set(node.id, node);
+    graph.nodeDepth.set(node.id, 1);
+    graph.upEdges.set(node.id, [rootNode.id]);
   }
 
-  return {
-    nodes,
-    downEdges: new Map([[rootNode.id, children.map((node) => node.id)]]),
-    upEdges: new Map(children.map((node) => [node.id, [rootNode.id]])),
-    nodeDepth,
-    nodesOnLevel: [1, children.length],
-  };
+  while (graph.nodesOnLevel.length < 2) graph.nodesOnLevel.push(0);
+  graph.nodesOnLevel[0] += 1;
+  graph.nodesOnLevel[1] += children.length;
+
+  const res = propagateRates(graph);
+  if (res.err) return res;
+  return Result.ok(rootNode.id);
+}
+
+/**
+ * Builds a graph out of a solved production plan. Every recipe of the plan
+ * becomes a single node shared by all of its consumers, and so does every raw
+ * input. Targets become roots that run their recipe and supply any consumers
+ * of its results too, targets of the same recipe splitting its crafts by rate.
+ * Consumers draw an item from each of its suppliers in proportion to how much
+ * of it the supplier produces.
+ */
+export function graphFromPlan(
+  plan: ProductionPlan,
+  chooseMachine = firstMachine,
+): Result<RecipeGraph, RateError> {
+  const graph = emptyGraph();
+  const producers: ProducingNode[] = [];
+  const supplies: { item: Item; supplier: NodeID; amount: number }[] = [];
+
+  const consumed: ItemAmount[] = [];
+  const planCrafts = new Map<string, number>();
+  for (const { recipe, crafts } of plan.recipes) {
+    planCrafts.set(recipe.name, crafts);
+    for (const ingredient of recipe.ingredients) {
+      addItemAmount(consumed, ingredient, crafts * ingredient.amount);
+    }
+  }
+  const targetRates = new Map<string, number>();
+  for (const { recipe, rate } of plan.targets) {
+    targetRates.set(recipe.name, (targetRates.get(recipe.name) ?? 0) + rate);
+  }
+
+  for (const { recipe, rate } of plan.targets) {
+    const node: RootNode = {
+      id: nextNodeID(graph),
+      type: "root",
+      recipe,
+      desiredProduction: rate,
+      machine: chooseMachine(recipe),
+      surplus: [],
+    };
+    producers.push(node);
+    const crafts =
+      ((planCrafts.get(recipe.name) ?? 0) * rate) /
+      targetRates.get(recipe.name)!;
+    for (const { amount, ...item } of recipe.results) {
+      supplies.push({ item, supplier: node.id, amount: crafts * amount });
+    }
+  }
+
+  for (const { recipe, crafts } of plan.recipes) {
+    if (targetRates.has(recipe.name)) continue;
+    // Node is known by the output that is consumed the most
+    const { amount: _, ...item } = recipe.results.reduce((best, result) =>
+      amountOf(consumed, result) > amountOf(consumed, best) ? result : best,
+    );
+    const node: IntermediateNode = {
+      id: nextNodeID(graph),
+      type: "intermediate",
+      recipe,
+      item,
+      machine: chooseMachine(recipe),
+      desiredProduction: crafts * resultAmount(recipe, item),
+      surplus: [],
+    };
+    producers.push(node);
+    for (const { amount, ...item } of recipe.results) {
+      supplies.push({ item, supplier: node.id, amount: crafts * amount });
+    }
+  }
+
+  for (const { amount, ...item } of plan.rawInputs) {
+    const node: TerminalNode = {
+      id: nextNodeID(graph),
+      type: "terminal",
+      item,
+      requiredAmount: amount,
+      producedByRecipes: recipesForResult(item),
+    };
+    graph.nodes.set(node.id, node);
+    supplies.push({ item, supplier: node.id, amount });
+  }
+
+  for (const node of producers) {
+    graph.nodes.set(node.id, node);
+    const downEdges: NodeID[] = [];
+    const shares: SupplyShare[] = [];
+    for (const ingredient of node.recipe.ingredients) {
+      const suppliers = supplies.filter(({ item }) => itemEq(item, ingredient));
+      const total = suppliers.reduce((sum, { amount }) => sum + amount, 0);
+      if (total <= RATE_EPSILON) {
+        return inconsistency("Plan does not supply an ingredient", {
+          node: node.id,
+          item: ingredient,
+        });
+      }
+      for (const { item, supplier, amount } of suppliers) {
+        shares.push({ item, supplier, share: amount / total });
+        if (downEdges.includes(supplier)) continue;
+        downEdges.push(supplier);
+        const upEdges = graph.upEdges.get(supplier) ?? [];
+        upEdges.push(node.id);
+        graph.upEdges.set(supplier, upEdges);
+      }
+    }
+    graph.downEdges.set(node.id, downEdges);
+    graph.supplyShares.set(node.id, shares);
+  }
+
+  const depths = recomputeDepths(graph);
+  if (depths.err) return depths;
+  const rates = propagateRates(graph);
+  if (rates.err) return rates;
+  return Result.ok(graph);
+}
+
+/** Parts of a graph that the rest of it follows from */
+export type GraphParts = Pick<
+  RecipeGraph,
+  | "nodes"
+  | "downEdges"
+  | "supplyShares"
+  | "positions"
+  | "suppliedItems"
+  | "miningResearch"
+>;
+
+/**
+ * Puts a graph back together from its parts, such as those of a saved plan.
+ * Consumers of every node, depths and rates are worked out anew.
+ */
+export function restoreGraph(
+  parts: GraphParts,
+): Result<RecipeGraph, RateError> {
+  const graph: RecipeGraph = { ...emptyGraph(), ...parts };
+  graph.nodesIssued = Math.max(-1, ...parts.nodes.keys()) + 1;
+  for (const [id, children] of parts.downEdges) {
+    for (const childId of children) {
+      const upEdges = graph.upEdges.get(childId) ?? [];
+      upEdges.push(id);
+      graph.upEdges.set(childId, upEdges);
+    }
+  }
+
+  const depths = recomputeDepths(graph);
+  if (depths.err) return depths;
+  const rates = propagateRates(graph);
+  if (rates.err) return rates;
+  return Result.ok(graph);
+}
+
+/**
+ * Adds every node of another graph, such as a plan opened from a file, next
+ * to the nodes already in the graph. The graphs number their nodes on their
+ * own, so the nodes brought in are given new ids. Positions are left out,
+ * they were picked around the nodes of the other graph.
+ */
+export function importGraph(
+  graph: RecipeGraph,
+  other: RecipeGraph,
+): Result<RecipeGraph, RateError> {
+  return updateGraph(graph, (draft) => {
+    const ids = new Map<NodeID, NodeID>();
+    for (const id of other.nodes.keys()) ids.set(id, nextNodeID(draft));
+    const remap = (id: NodeID) => ids.get(id) ?? id;
+
+    for (const [id, node] of other.nodes) {
+      draft.nodes.set(remap(id), { ...node, id: remap(id) });
+    }
+    for (const [id, children] of other.downEdges) {
+      draft.downEdges.set(remap(id), children.map(remap));
+    }
+    for (const [id, parents] of other.upEdges) {
+      draft.upEdges.set(remap(id), parents.map(remap));
+    }
+    for (const [id, shares] of other.supplyShares) {
+      draft.supplyShares.set(
+        remap(id),
+        shares.map((share) => ({ ...share, supplier: remap(share.supplier) })),
+      );
+    }
+    for (const item of other.suppliedItems) draft.suppliedItems.add(item);
+
+    const depths = recomputeDepths(draft);
+    if (depths.err) return depths;
+    return propagateRates(draft);
+  });
 }
 
 type ExpandError =
@@ -108,30 +526,59 @@ type ExpandError =
   | { kind: "unsupported-node"; node: RecipeNode }
   | { kind: "no-recipes"; item: Item }
   | { kind: "multiple-recipes"; item: Item; recipes: Recipe[] }
-  | Inconsistency;
+  | { kind: "unknown-recipe"; item: Item; recipe: string }
+  | RateError;
+
+/**
+ * Replaces terminal node with an intermediate one, producing node's item with
+ * the recipe named `recipeName`. Recipe may be omitted only when there is
+ * exactly one recipe producing the item.
+ */
+export function expandNode(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  recipeName?: string,
+  chooseMachine = firstMachine,
+): Result<RecipeGraph, ExpandError> {
+  return updateGraph(graph, (draft) =>
+    expandInPlace(draft, nodeID, recipeName, chooseMachine),
+  );
+}
 
 /** NOTE: Mutates graph parameter passed in */
-export function expandNode(
+function expandInPlace(
   graph: RecipeGraph,
   nodeID: NodeID,
+  recipeName: string | undefined,
+  chooseMachine: MachineChoice,
 ): Result<void, ExpandError> {
   const prevNode = graph.nodes.get(nodeID);
   if (!prevNode) return Result.err({ kind: "node-not-found", node: nodeID });
   if (prevNode.type !== "terminal")
     return Result.err({ kind: "unsupported-node", node: prevNode });
 
-  const recipes = recipesForResult(prevNode.item);
+  const recipes = prevNode.producedByRecipes;
   if (recipes.length === 0) {
     return Result.err({ kind: "no-recipes", item: prevNode.item });
   }
-  if (recipes.length !== 1) {
+  if (recipeName === undefined && recipes.length !== 1) {
     return Result.err({
       kind: "multiple-recipes",
       item: prevNode.item,
       recipes,
     });
   }
-  const recipe = recipes[0]!;
+  const recipe =
+    recipeName === undefined
+      ? recipes[0]!
+      : recipes.find((recipe) => recipe.name === recipeName);
+  if (!recipe) {
+    return Result.err({
+      kind: "unknown-recipe",
+      item: prevNode.item,
+      recipe: recipeName!,
+    });
+  }
 
   const depth = graph.nodeDepth.get(nodeID) ?? 0;
 
@@ -139,17 +586,19 @@ export function expandNode(
     id: prevNode.id,
     type: "intermediate",
     recipe,
-    machine: madeIn(recipe)[0],
+    item: prevNode.item,
+    machine: chooseMachine(recipe),
     desiredProduction: prevNode.requiredAmount,
+    surplus: [],
   };
 
   const childIds: NodeID[] = [];
   for (const { amount, ...item } of recipe.ingredients) {
     const child: TerminalNode = {
-      id: nextNodeID(),
+      id: nextNodeID(graph),
       type: "terminal",
       item,
-      requiredAmount: prevNode.requiredAmount * amount,
+      requiredAmount: edgeRate(replacementNode, item),
       producedByRecipes: recipesForResult(item),
     };
     graph.nodes.set(child.id, child);
@@ -168,23 +617,133 @@ export function expandNode(
   }
   graph.nodesOnLevel[depth + 1] += childIds.length;
 
-  return Result.void;
+  return propagateRates(graph);
+}
+
+export type ExpandAllOptions = {
+  /** Items that are left as terminal nodes even though they can be made */
+  stopAt(item: Item): boolean;
+  /** Recipe to use for an item that several recipes produce */
+  preferredRecipe(item: Item): string | undefined;
+  /** Machine to make each recipe in, the first that can when left out */
+  chooseMachine?: MachineChoice;
+};
+
+export type ExpandAllReport = {
+  graph: RecipeGraph;
+  /** Number of terminal nodes that were expanded */
+  expanded: number;
+  /** Items produced by several recipes without a preferred one among them */
+  undecided: Item[];
+};
+
+/**
+ * Expands every terminal node downstream of the node, along with the terminal
+ * nodes that creates, until only raw resources, supplied items and items to
+ * stop at are left. Raw resources stay terminal even where a recipe such as
+ * emptying a barrel makes them.
+ * An item is not expanded with a recipe that already makes it further up the
+ * same branch, as that would never end for recipes like Kovarex enrichment.
+ */
+export function expandAll(
+  original: RecipeGraph,
+  nodeID: NodeID,
+  options: ExpandAllOptions,
+): Result<ExpandAllReport, ExpandError> {
+  if (!original.nodes.has(nodeID))
+    return Result.err({ kind: "node-not-found", node: nodeID });
+
+  const graph = draftGraph(original);
+  const report: ExpandAllReport = { graph, expanded: 0, undecided: [] };
+  const queue = Array.from(downstreamNodes(graph, nodeID), (id) => ({
+    id,
+    branch: new Set<string>(),
+  }));
+  while (true) {
+    const entry = queue.shift();
+    if (!entry) break;
+    const node = graph.nodes.get(entry.id);
+    if (node?.type !== "terminal") continue;
+    if (
+      node.producedByRecipes.length === 0 ||
+      isResource(node.item) ||
+      isSupplied(graph, node.item) ||
+      options.stopAt(node.item)
+    )
+      continue;
+
+    let recipe = node.producedByRecipes[0]!;
+    if (node.producedByRecipes.length > 1) {
+      const preferred = options.preferredRecipe(node.item);
+      const found = node.producedByRecipes.find(
+        (recipe) => recipe.name === preferred,
+      );
+      if (!found) {
+        if (!report.undecided.some((item) => itemEq(item, node.item)))
+          report.undecided.push(node.item);
+        continue;
+      }
+      recipe = found;
+    }
+    if (entry.branch.has(recipe.name)) continue;
+
+    const res = expandInPlace(
+      graph,
+      node.id,
+      recipe.name,
+      options.chooseMachine ?? firstMachine,
+    );
+    if (res.err) return res;
+    report.expanded += 1;
+
+    const branch = new Set(entry.branch).add(recipe.name);
+    for (const childId of graph.downEdges.get(node.id) ?? []) {
+      queue.push({ id: childId, branch });
+    }
+  }
+
+  return Result.ok(report);
 }
 
 type CollapseError =
   | "node-not-found"
   | "unsupported-node"
-  | Inconsistency
+  | RateError
   | SeverEdgeError;
 
+/**
+ * Replaces intermediate node with a terminal one, removing every node that
+ * only it consumed.
+ */
 export function collapseNode(
   graph: RecipeGraph,
   nodeID: NodeID,
+): Result<RecipeGraph, CollapseError> {
+  return updateGraph(graph, (draft) => collapseInPlace(draft, nodeID));
+}
+
+/** NOTE: Mutates graph parameter passed in */
+function collapseInPlace(
+  graph: RecipeGraph,
+  nodeID: NodeID,
 ): Result<void, CollapseError> {
   const node = graph.nodes.get(nodeID);
   if (!node) return Result.err("node-not-found");
   if (node.type !== "intermediate") return Result.err("unsupported-node");
 
+  const detached = detachByproductConsumers(graph, node);
+  if (detached.err) return detached;
+
+  // Every consumer was only after the byproducts, nobody needs the node itself
+  if (graph.upEdges.get(nodeID)?.length === 0) {
+    const res = deleteNode(graph, nodeID);
+    if (res.err) return res;
+    removeUnreachable(graph);
+    const depths = recomputeDepths(graph);
+    if (depths.err) return depths;
+    return propagateRates(graph);
+  }
+
   const downEdges = graph.downEdges.get(nodeID);
   if (!downEdges)
     return inconsistency("Missing down edges from nonterminal node", { node });
@@ -199,35 +758,893 @@ export function collapseNode(
   const replacementNode: TerminalNode = {
     id: node.id,
     type: "terminal",
-    item: node.recipe.results[0],
+    item: node.item,
     requiredAmount: node.desiredProduction,
-    producedByRecipes: recipesForResult(node.recipe.results[0]),
+    producedByRecipes: recipesForResult(node.item),
   };
   graph.nodes.set(replacementNode.id, replacementNode);
   graph.downEdges.delete(nodeID);
+  graph.supplyShares.delete(nodeID);
+  removeUnreachable(graph);
+
+  const res = recomputeDepths(graph);
+  if (res.err) return res;
+
+  // Children that were merged with other nodes lose this node's share of
+  // their demand
+  return propagateRates(graph);
+}
+
+/**
+ * Terminal node of a collapsed intermediate can only supply its own item. Every
+ * consumer of the intermediate's byproducts gets a fresh terminal node for
+ * them instead.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function detachByproductConsumers(
+  graph: RecipeGraph,
+  node: IntermediateNode,
+): Result<void, Inconsistency> {
+  for (const parentId of Array.from(graph.upEdges.get(node.id) ?? [])) {
+    // Whatever the node feeds back into itself goes away along with it
+    if (parentId === node.id) {
+      unlinkEdge(graph, node.id, node.id);
+      continue;
+    }
+    const parent = graph.nodes.get(parentId);
+    if (!parent || isLeaf(parent)) {
+      return inconsistency("Found edge from a non-producing node", {
+        from: parentId,
+        to: node.id,
+      });
+    }
+
+    let consumesPrimary = false;
+    for (const ingredient of parent.recipe.ingredients) {
+      const supply = supplyOf(graph, parent, ingredient);
+      if (!supply.some(({ supplier }) => supplier === node.id)) continue;
+      if (itemEq(ingredient, node.item)) {
+        consumesPrimary = true;
+        continue;
+      }
+
+      // Shares were picked with this node among the suppliers
+      const shares = graph.supplyShares.get(parent.id) ?? [];
+      graph.supplyShares.set(
+        parent.id,
+        shares.filter((share) => !itemEq(share.item, ingredient)),
+      );
+
+      const item = { name: ingredient.name, type: ingredient.type };
+      const terminal: TerminalNode = {
+        id: nextNodeID(graph),
+        type: "terminal",
+        item,
+        requiredAmount: edgeRate(parent, item),
+        producedByRecipes: recipesForResult(item),
+      };
+      graph.nodes.set(terminal.id, terminal);
+      graph.upEdges.set(terminal.id, [parent.id]);
+      editEdges(graph.downEdges, parent.id)?.push(terminal.id);
+      // Depths are recomputed afterwards, but the terminal may get deleted
+      // before that
+      const depth = (graph.nodeDepth.get(parent.id) ?? 0) + 1;
+      graph.nodeDepth.set(terminal.id, depth);
+      while (graph.nodesOnLevel.length <= depth) graph.nodesOnLevel.push(0);
+      graph.nodesOnLevel[depth] += 1;
+    }
+
+    if (!consumesPrimary) unlinkEdge(graph, parent.id, node.id);
+  }
 
   return Result.void;
 }
 
+/** Removes edge in both directions, leaving both nodes in place */
+function unlinkEdge(graph: RecipeGraph, from: NodeID, to: NodeID) {
+  const downEdges = editEdges(graph.downEdges, from);
+  const idxDown = downEdges?.indexOf(to) ?? -1;
+  if (idxDown !== -1) downEdges!.splice(idxDown, 1);
+
+  const upEdges = editEdges(graph.upEdges, to);
+  const idxUp = upEdges?.indexOf(from) ?? -1;
+  if (idxUp !== -1) upEdges!.splice(idxUp, 1);
+}
+
+type SetRateError =
+  | { kind: "node-not-found"; node: NodeID }
+  | { kind: "unsupported-node"; node: RecipeNode }
+  | { kind: "invalid-rate"; rate: number }
+  | RateError;
+
+export function setDesiredProduction(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  rate: number,
+): Result<RecipeGraph, SetRateError> {
+  const node = graph.nodes.get(nodeID);
+  if (!node) return Result.err({ kind: "node-not-found", node: nodeID });
+  if (node.type !== "root")
+    return Result.err({ kind: "unsupported-node", node });
+  if (!Number.isFinite(rate) || rate < 0)
+    return Result.err({ kind: "invalid-rate", rate });
+
+  return updateGraph(graph, (draft) => {
+    draft.nodes.set(nodeID, { ...node, desiredProduction: rate });
+    return propagateRates(draft);
+  });
+}
+
+type SetModulesError =
+  | { kind: "node-not-found"; node: NodeID }
+  | { kind: "unsupported-node"; node: RecipeNode }
+  | { kind: "too-many-modules"; modules: number; slots: number }
+  | { kind: "disallowed-module"; recipe: Recipe; module: Module }
+  | { kind: "invalid-beacons"; beacons: number }
+  | RateError;
+
+/**
+ * Fills the node's machines with modules and surrounds them with beacons.
+ * Machines without module slots aren't reached by beacons either, and
+ * productivity modules are refused for recipes the game doesn't allow them in.
+ * Rates of the nodes below follow, as productivity changes what the node
+ * consumes.
+ */
+export function setModules(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  setup: ModuleSetup,
+): Result<RecipeGraph, SetModulesError> {
+  const node = graph.nodes.get(nodeID);
+  if (!node) return Result.err({ kind: "node-not-found", node: nodeID });
+  if (isLeaf(node)) return Result.err({ kind: "unsupported-node", node });
+  const slots = moduleSlots(node.machine);
+  if (setup.modules.length > slots)
+    return Result.err({
+      kind: "too-many-modules",
+      modules: setup.modules.length,
+      slots,
+    });
+  const disallowed = setup.modules.find(
+    (module) => !allowsModule(node.recipe, module),
+  );
+  if (disallowed)
+    return Result.err({
+      kind: "disallowed-module",
+      recipe: node.recipe,
+      module: disallowed,
+    });
+  const { beacons } = setup;
+  if (!Number.isInteger(beacons) || beacons < 0 || (beacons > 0 && !slots))
+    return Result.err({ kind: "invalid-beacons", beacons });
+
+  const { modules: _, ...rest } = node;
+  const updated =
+    setup.modules.length > 0 || beacons > 0
+      ? { ...rest, modules: { modules: [...setup.modules], beacons } }
+      : rest;
+  return updateGraph(graph, (draft) => {
+    draft.nodes.set(nodeID, updated);
+    return propagateRates(draft);
+  });
+}
+
+type SetExtractorError =
+  | { kind: "node-not-found"; node: NodeID }
+  | { kind: "unsupported-node"; node: RecipeNode }
+  | { kind: "unsupported-extractor"; item: Item; extractor: Extractor }
+  | { kind: "invalid-yield"; yield: number };
+
+/**
+ * Plans the extraction of a terminal node's raw resource with the given
+ * extractor, or takes it back to a plain terminal when there is none.
+ */
+export function setExtractor(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  extractor?: Extractor,
+): Result<RecipeGraph, SetExtractorError> {
+  const node = graph.nodes.get(nodeID);
+  if (!node) return Result.err({ kind: "node-not-found", node: nodeID });
+  if (!isLeaf(node)) return Result.err({ kind: "unsupported-node", node });
+
+  let updated: LeafNode;
+  if (extractor) {
+    const allowed = extractorsFor(node.item) ?? [];
+    if (!allowed.some((option) => option.type === extractor.type))
+      return Result.err({
+        kind: "unsupported-extractor",
+        item: node.item,
+        extractor,
+      });
+    if (
+      extractor.type === "pumpjack" &&
+      (!Number.isFinite(extractor.yield) || extractor.yield <= 0)
+    )
+      return Result.err({ kind: "invalid-yield", yield: extractor.yield });
+    updated = {
+      id: node.id,
+      type: "resource",
+      item: node.item,
+      requiredAmount: node.requiredAmount,
+      extractor: { ...extractor },
+    };
+  } else {
+    updated = {
+      id: node.id,
+      type: "terminal",
+      item: node.item,
+      requiredAmount: node.requiredAmount,
+      producedByRecipes: recipesForResult(node.item),
+    };
+  }
+
+  const nodes = new Map(graph.nodes);
+  nodes.set(nodeID, updated);
+  return Result.ok({ ...graph, nodes });
+}
+
+type SetResearchError = { kind: "invalid-research"; level: number };
+
+/** Sets the level of mining productivity research resource nodes count on */
+export function setMiningResearch(
+  graph: RecipeGraph,
+  level: number,
+): Result<RecipeGraph, SetResearchError> {
+  if (!Number.isInteger(level) || level < 0)
+    return Result.err({ kind: "invalid-research", level });
+  return Result.ok({ ...graph, miningResearch: level });
+}
+
+type SetMachineError =
+  | { kind: "node-not-found"; node: NodeID }
+  | { kind: "unsupported-node"; node: RecipeNode }
+  | { kind: "unsupported-machine"; recipe: string; machine: Machine }
+  | RateError;
+
+/**
+ * Runs the node's recipe in another machine that can make it, taking out the
+ * modules that no longer fit.
+ */
+export function setMachine(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  machine: Machine,
+): Result<RecipeGraph, SetMachineError> {
+  const node = graph.nodes.get(nodeID);
+  if (!node) return Result.err({ kind: "node-not-found", node: nodeID });
+  if (isLeaf(node)) return Result.err({ kind: "unsupported-node", node });
+  const name = machineItem(machine).name;
+  const option = madeIn(node.recipe).find(
+    (option) => machineItem(option).name === name,
+  );
+  if (!option)
+    return Result.err({
+      kind: "unsupported-machine",
+      recipe: node.recipe.name,
+      machine,
+    });
+
+  return updateGraph(graph, (draft) => {
+    draft.nodes.set(nodeID, withMachine(node, option));
+    // Productivity modules taken out change what the node consumes
+    return propagateRates(draft);
+  });
+}
+
+/**
+ * Moves every producing node to the machine `chooseMachine` picks for its
+ * recipe, such as after the preferred machines have changed. Nodes already in
+ * that machine keep their modules.
+ */
+export function reapplyMachines(
+  graph: RecipeGraph,
+  chooseMachine: MachineChoice,
+): Result<RecipeGraph, RateError> {
+  return updateGraph(graph, (draft) => {
+    for (const node of draft.nodes.values()) {
+      if (isLeaf(node)) continue;
+      const machine = chooseMachine(node.recipe);
+      const name = machineItem(machine).name;
+      if (machineItem(node.machine).name === name) continue;
+      draft.nodes.set(node.id, withMachine(node, machine));
+    }
+    return propagateRates(draft);
+  });
+}
+
+/**
+ * Copy of the node running in another machine. Modules that no longer fit
+ * are taken out, from the last slot on, along with the beacons when the
+ * machine has no slots at all.
+ */
+function withMachine(node: ProducingNode, machine: Machine): ProducingNode {
+  const { modules: _, ...rest } = node;
+  const slots = moduleSlots(machine);
+  const modules = node.modules?.modules.slice(0, slots) ?? [];
+  const beacons = slots > 0 ? node.modules?.beacons ?? 0 : 0;
+  return modules.length > 0 || beacons > 0
+    ? { ...rest, machine, modules: { modules, beacons } }
+    : { ...rest, machine };
+}
+
+type MoveError = { kind: "node-not-found"; node: NodeID };
+
+/**
+ * Pins the node to a position picked by the user instead of the one it gets
+ * from its level.
+ */
+export function moveNode(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+  position: Position,
+): Result<RecipeGraph, MoveError> {
+  if (!graph.nodes.has(nodeID)) {
+    return Result.err({ kind: "node-not-found", node: nodeID });
+  }
+  const positions = new Map(graph.positions);
+  positions.set(nodeID, { x: position.x, y: position.y });
+  return Result.ok({ ...graph, positions });
+}
+
+export function isSupplied(graph: RecipeGraph, item: Item) {
+  return graph.suppliedItems.has(itemKey(item));
+}
+
+/** Marks the item as coming from outside of the plan, or takes that back */
+export function setSupplied(
+  graph: RecipeGraph,
+  item: Item,
+  supplied: boolean,
+): Result<RecipeGraph, never> {
+  const suppliedItems = new Set(graph.suppliedItems);
+  if (supplied) suppliedItems.add(itemKey(item));
+  else suppliedItems.delete(itemKey(item));
+  return Result.ok({ ...graph, suppliedItems });
+}
+
+/** Amount of every supplied item the plan draws from outside, per second */
+export function busInputs(graph: RecipeGraph) {
+  const inputs: ItemAmount[] = [];
+  for (const node of graph.nodes.values()) {
+    if (node.type !== "terminal" || !isSupplied(graph, node.item)) continue;
+    addItemAmount(inputs, node.item, node.requiredAmount);
+  }
+  return inputs;
+}
+
+export type MachineTotal = { machine: Machine; count: number };
+export type ExtractorTotal = { extractor: Extractor; count: number };
+
+export type PlanTotals = {
+  /** Items per second every terminal node of the plan needs, by item */
+  terminals: ItemAmount[];
+  /** Machines running the plan's recipes, by kind of machine */
+  machines: MachineTotal[];
+  /** Extractors of the plan's resource nodes, by kind of extractor */
+  extractors: ExtractorTotal[];
+  power: PowerUse;
+};
+
+/** What the whole plan takes in and the machines it takes, largest first */
+export function planTotals(graph: RecipeGraph): PlanTotals {
+  const terminals: ItemAmount[] = [];
+  const machines: MachineTotal[] = [];
+  const extractors: ExtractorTotal[] = [];
+  const power: PowerUse = { electric: 0, fuel: 0 };
+  const addPower = (use: PowerUse) => {
+    power.electric += use.electric;
+    power.fuel += use.fuel;
+  };
+  for (const node of graph.nodes.values()) {
+    if (node.type === "terminal") {
+      addItemAmount(terminals, node.item, node.requiredAmount);
+      continue;
+    }
+    if (node.type === "resource") {
+      const count = extractorCount(
+        node.extractor,
+        node.item,
+        node.requiredAmount,
+        graph.miningResearch,
+      );
+      // Pumpjacks on fields of different yield are still the same machine
+      const total = extractors.find(
+        (total) => total.extractor.type === node.extractor.type,
+      );
+      if (total) total.count += count;
+      else extractors.push({ extractor: node.extractor, count });
+      addPower(extractorPower(node.extractor, count));
+      continue;
+    }
+
+    const count = machineCount(
+      node.recipe,
+      nodeProduction(node),
+      node.machine,
+      node.type === "intermediate" ? node.item : undefined,
+      node.modules,
+    );
+    const name = machineItem(node.machine).name;
+    const total = machines.find(
+      (total) => machineItem(total.machine).name === name,
+    );
+    if (total) total.count += count;
+    else machines.push({ machine: node.machine, count });
+
+    addPower(powerUse(node.machine, count, node.modules));
+  }
+
+  terminals.sort((a, b) => b.amount - a.amount);
+  machines.sort((a, b) => b.count - a.count);
+  extractors.sort((a, b) => b.count - a.count);
+  return { terminals, machines, extractors, power };
+}
+
+type RateError =
+  | { kind: "unsustainable-cycle"; nodes: NodeID[] }
+  | Inconsistency;
+
+/**
+ * Recomputes `requiredAmount` of every terminal, `desiredProduction` of
+ * every intermediate node and `surplus` of every producing node, starting
+ * from the roots' desired production. Nodes with several parents receive the
+ * sum of their parents' demands. Nodes with several outputs run fast enough to
+ * satisfy the most demanded one. Nodes that feed each other through feedback
+ * edges are solved together for their steady state.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function propagateRates(graph: RecipeGraph): Result<void, RateError> {
+  const previous = new Map(graph.nodes);
+  const demand = new Map<NodeID, ItemAmount[]>();
+  for (const component of stronglyConnectedComponents(graph)) {
+    const solved = solveComponent(graph, component, demand);
+    if (solved.err) return solved;
+
+    for (const node of solved.value) {
+      graph.nodes.set(node.id, node);
+      for (const ingredient of node.recipe.ingredients) {
+        const rate = edgeRate(node, ingredient);
+        for (const { supplier, share } of supplyOf(graph, node, ingredient)) {
+          const supplierDemand = demand.get(supplier) ?? [];
+          addItemAmount(supplierDemand, ingredient, rate * share);
+          demand.set(supplier, supplierDemand);
+        }
+      }
+    }
+
+    // Cycles within the component are closed only now, so every member's
+    // demand is complete
+    for (const id of component) {
+      const node = graph.nodes.get(id);
+      if (!node) return inconsistency("Missing node", { node: id });
+      const demanded = demand.get(id) ?? [];
+      if (isLeaf(node)) {
+        graph.nodes.set(id, {
+          ...node,
+          requiredAmount: amountOf(demanded, node.item),
+        });
+      } else {
+        // Root's own product leaves the plan on top of what is consumed in it
+        if (node.type === "root") {
+          addItemAmount(demanded, nodeProduct(node), node.desiredProduction);
+        }
+        node.surplus = surplus(node, demanded);
+      }
+    }
+  }
+
+  // Nodes whose rates came out as they were stay shared with the graph this
+  // one was drafted from
+  for (const [id, node] of graph.nodes) {
+    const before = previous.get(id);
+    if (before && sameRates(before, node)) graph.nodes.set(id, before);
+  }
+
+  return Result.void;
+}
+
+/** Whether the two versions of a node have the same rates and surplus */
+function sameRates(a: RecipeNode, b: RecipeNode) {
+  if (isLeaf(a) || isLeaf(b)) {
+    return isLeaf(a) && isLeaf(b) && a.requiredAmount === b.requiredAmount;
+  }
+  return (
+    a.type === b.type &&
+    a.desiredProduction === b.desiredProduction &&
+    nodeProduction(a) === nodeProduction(b) &&
+    a.surplus.length === b.surplus.length &&
+    a.surplus.every((entry, i) => {
+      const other = b.surplus[i]!;
+      return itemEq(entry, other) && entry.amount === other.amount;
+    })
+  );
+}
+
+/**
+ * Items per second going along the edge, from the supplier `to` up to the
+ * consumer `from`. Split between suppliers the same way rates are propagated.
+ */
+export function edgeFlow(
+  graph: RecipeGraph,
+  from: NodeID,
+  to: NodeID,
+): ItemAmount[] {
+  const flow: ItemAmount[] = [];
+  const node = graph.nodes.get(from);
+  if (!node || isLeaf(node)) return flow;
+  for (const ingredient of node.recipe.ingredients) {
+    const rate = edgeRate(node, ingredient);
+    for (const { supplier, share } of supplyOf(graph, node, ingredient)) {
+      if (supplier === to) addItemAmount(flow, ingredient, rate * share);
+    }
+  }
+  return flow;
+}
+
+const MAX_SOLVER_ROUNDS = 16;
+
+/**
+ * Finds the desired production of every producing node in the strongly
+ * connected component, given the demand placed on it by the nodes upstream.
+ * Within the component, crafts of every node satisfy a system of linear
+ * equations: a node produces its driving output as fast as the rest of the
+ * component and the upstream nodes consume it, and roots make their desired
+ * production on top of that. The driving output starts as the node's primary
+ * product and is switched over to whichever output turns out to be demanded
+ * more, until the choice settles.
+ *
+ * Returns fresh copies of the component's producing nodes.
+ */
+function solveComponent(
+  graph: RecipeGraph,
+  component: NodeID[],
+  demand: Map<NodeID, ItemAmount[]>,
+): Result<ProducingNode[], RateError> {
+  const producing: ProducingNode[] = [];
+  for (const id of component) {
+    const node = graph.nodes.get(id);
+    if (!node) return inconsistency("Missing node", { node: id });
+    if (!isLeaf(node)) producing.push(node);
+  }
+  const members = new Map(producing.map((node, i) => [node.id, { node, i }]));
+
+  /** Amount of `item` drawn from the node by each craft of its parents in the component */
+  function consumers(node: ProducingNode, item: Item) {
+    const result: { consumer: number; amount: number }[] = [];
+    for (const parentId of graph.upEdges.get(node.id) ?? []) {
+      const parent = members.get(parentId);
+      if (!parent) continue;
+      const supply = supplyOf(graph, parent.node, item).find(
+        ({ supplier }) => supplier === node.id,
+      );
+      if (!supply) continue;
+      const amount = ingredientAmount(parent.node.recipe, item) * supply.share;
+      result.push({ consumer: parent.i, amount });
+    }
+    return result;
+  }
+
+  const driving = producing.map(nodeProduct);
+  let crafts = producing.map(() => 0);
+  for (let round = 0; round < MAX_SOLVER_ROUNDS; round++) {
+    const matrix: number[][] = [];
+    const rhs: number[] = [];
+    for (const [i, node] of producing.entries()) {
+      const row = Array<number>(producing.length).fill(0);
+      matrix.push(row);
+      const item = driving[i]!;
+      row[i] = nodeResultAmount(node, item);
+      for (const { consumer, amount } of consumers(node, item)) {
+        row[consumer] = row[consumer]! - amount;
+      }
+      // What leaves the plan comes on top of what the cycle consumes
+      const leaving = node.type === "root" ? node.desiredProduction : 0;
+      rhs.push(amountOf(demand.get(node.id) ?? [], item) + leaving);
+    }
+
+    const solution = solveLinearSystem(matrix, rhs);
+    // Cycle consumes at least as much as it produces
+    if (!solution || solution.some((value) => !(value >= -RATE_EPSILON))) {
+      return Result.err({ kind: "unsustainable-cycle", nodes: component });
+    }
+    crafts = solution.map((value) => Math.max(value, 0));
+
+    let settled = true;
+    for (const [i, node] of producing.entries()) {
+      if (node.type === "root") continue;
+      const current = crafts[i]!;
+      for (const result of node.recipe.results) {
+        let demanded = amountOf(demand.get(node.id) ?? [], result);
+        for (const { consumer, amount } of consumers(node, result)) {
+          demanded += crafts[consumer]! * amount;
+        }
+        const required = demanded / nodeResultAmount(node, result);
+        if (required - current > RATE_EPSILON * Math.max(1, current)) {
+          driving[i] = result;
+          settled = false;
+        }
+      }
+    }
+    // If it never settles, whatever is still short shows up as negative surplus
+    if (settled) break;
+  }
+
+  return Result.ok(
+    producing.map((node, i) => {
+      const production = crafts[i]! * nodeResultAmount(node, nodeProduct(node));
+      return node.type === "root"
+        ? { ...node, production }
+        : { ...node, desiredProduction: production };
+    }),
+  );
+}
+
+/**
+ * Children of the node that supply it with `item`, along with the share of
+ * the node's demand for it each of them covers. Shares of suppliers that are
+ * no longer connected are redistributed among the rest.
+ */
+function supplyOf(graph: RecipeGraph, node: ProducingNode, item: Item) {
+  const children = graph.downEdges.get(node.id) ?? [];
+  const shares = (graph.supplyShares.get(node.id) ?? []).filter(
+    (share) => itemEq(share.item, item) && children.includes(share.supplier),
+  );
+  const total = shares.reduce((sum, { share }) => sum + share, 0);
+  if (total > RATE_EPSILON) {
+    return shares.map(({ supplier, share }) => ({
+      supplier,
+      share: share / total,
+    }));
+  }
+
+  const suppliers = suppliersOf(graph, node, item);
+  return suppliers.map((supplier) => ({
+    supplier,
+    share: 1 / suppliers.length,
+  }));
+}
+
+/**
+ * Children of the node that supply it with `item`. Those that are producing
+ * the item as their primary product take precedence over those that merely
+ * have it as a byproduct.
+ */
+function suppliersOf(graph: RecipeGraph, node: ProducingNode, item: Item) {
+  const primary: NodeID[] = [];
+  const secondary: NodeID[] = [];
+  for (const childId of graph.downEdges.get(node.id) ?? []) {
+    const child = graph.nodes.get(childId);
+    if (!child) continue;
+    if (child.type !== "root" && itemEq(nodeMergeItem(child), item))
+      primary.push(childId);
+    else if (!isLeaf(child) && producesItem(child, item))
+      secondary.push(childId);
+  }
+  return primary.length > 0 ? primary : secondary;
+}
+
+function producesItem(node: ProducingNode, item: Item) {
+  return resultAmount(node.recipe, item) > 0;
+}
+
+/**
+ * Reclassifies feedback edges, then assigns every node a depth one greater
+ * than the deepest of its parents (not counting feedback edges), and recounts
+ * nodes on each level accordingly.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function recomputeDepths(graph: RecipeGraph): Result<void, Inconsistency> {
+  graph.feedbackEdges = findFeedbackEdges(graph);
+  const order = topologicalOrder(graph);
+  if (order.err) return order;
+
+  graph.nodeDepth.clear();
+  graph.nodesOnLevel = [];
+  for (const id of order.value) {
+    let depth = 0;
+    for (const parentId of graph.upEdges.get(id) ?? []) {
+      if (isFeedbackEdge(graph, parentId, id)) continue;
+      const parentDepth = graph.nodeDepth.get(parentId);
+      if (parentDepth === undefined)
+        return inconsistency("Missing depth", { node: parentId });
+      depth = Math.max(depth, parentDepth + 1);
+    }
+    graph.nodeDepth.set(id, depth);
+    while (graph.nodesOnLevel.length <= depth) graph.nodesOnLevel.push(0);
+    graph.nodesOnLevel[depth] += 1;
+  }
+
+  return Result.void;
+}
+
+/**
+ * Kahn's algorithm. Parents always come before their children, unless the
+ * edge between them is a feedback edge.
+ */
+function topologicalOrder(graph: RecipeGraph): Result<NodeID[], Inconsistency> {
+  const pendingParents = new Map<NodeID, number>();
+  const queue: NodeID[] = [];
+  for (const id of graph.nodes.keys()) {
+    const parents = (graph.upEdges.get(id) ?? []).filter(
+      (parentId) => !isFeedbackEdge(graph, parentId, id),
+    ).length;
+    pendingParents.set(id, parents);
+    if (parents === 0) queue.push(id);
+  }
+
+  const order: NodeID[] = [];
+  while (true) {
+    const id = queue.shift();
+    if (id === undefined) break;
+    order.push(id);
+
+    for (const childId of graph.downEdges.get(id) ?? []) {
+      if (isFeedbackEdge(graph, id, childId)) continue;
+      const pending = pendingParents.get(childId);
+      if (pending === undefined) {
+        return inconsistency("Found edge to non-existent node", {
+          from: id,
+          to: childId,
+        });
+      }
+      pendingParents.set(childId, pending - 1);
+      if (pending === 1) queue.push(childId);
+    }
+  }
+
+  if (order.length !== graph.nodes.size) {
+    return inconsistency("Found a cycle not broken by a feedback edge");
+  }
+  return Result.ok(order);
+}
+
+/**
+ * Depth-first search from the nodes nobody consumes from, roots first. Every
+ * edge leading back to a node on the current search path closes a cycle and
+ * is a feedback edge. Without them the graph is acyclic.
+ */
+function findFeedbackEdges(graph: RecipeGraph) {
+  const feedbackEdges = new Map<NodeID, NodeID[]>();
+  const visited = new Set<NodeID>();
+  const onPath = new Set<NodeID>();
+
+  function visit(id: NodeID) {
+    visited.add(id);
+    onPath.add(id);
+    for (const childId of graph.downEdges.get(id) ?? []) {
+      if (onPath.has(childId)) {
+        const edges = feedbackEdges.get(id) ?? [];
+        edges.push(childId);
+        feedbackEdges.set(id, edges);
+      } else if (!visited.has(childId)) {
+        visit(childId);
+      }
+    }
+    onPath.delete(id);
+  }
+
+  const nodes = Array.from(graph.nodes.values());
+  const startingPoints = [
+    ...nodes.filter((node) => !graph.upEdges.get(node.id)?.length),
+    // Roots that supply their byproducts back into their own production
+    ...nodes.filter((node) => node.type === "root"),
+    ...nodes,
+  ];
+  for (const node of startingPoints) {
+    if (!visited.has(node.id)) visit(node.id);
+  }
+
+  return feedbackEdges;
+}
+
+/**
+ * Tarjan's algorithm. Nodes that can reach each other through the edges end
+ * up in the same component. Components are listed in topological order:
+ * consumers come before the nodes they draw from.
+ */
+function stronglyConnectedComponents(graph: RecipeGraph) {
+  const components: NodeID[][] = [];
+  const index = new Map<NodeID, number>();
+  const lowLink = new Map<NodeID, number>();
+  const stack: NodeID[] = [];
+  const onStack = new Set<NodeID>();
+
+  function visit(id: NodeID) {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const childId of graph.downEdges.get(id) ?? []) {
+      if (!index.has(childId)) {
+        visit(childId);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(childId)!));
+      } else if (onStack.has(childId)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(childId)!));
+      }
+    }
+
+    if (lowLink.get(id) !== index.get(id)) return;
+    const component: NodeID[] = [];
+    while (true) {
+      const member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+      if (member === id) break;
+    }
+    components.push(component);
+  }
+
+  for (const id of graph.nodes.keys()) {
+    if (!index.has(id)) visit(id);
+  }
+
+  return components.reverse();
+}
+
+/**
+ * Severing edges deletes nodes left without any parents, but nodes feeding
+ * each other in a cycle keep each other alive. This removes every node that
+ * cannot be reached from a root.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function removeUnreachable(graph: RecipeGraph) {
+  const reachable = new Set<NodeID>();
+  const stack = Array.from(graph.nodes.values())
+    .filter((node) => node.type === "root")
+    .map((node) => node.id);
+  while (true) {
+    const id = stack.pop();
+    if (id === undefined) break;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    stack.push(...(graph.downEdges.get(id) ?? []));
+  }
+
+  for (const id of Array.from(graph.nodes.keys())) {
+    if (reachable.has(id)) continue;
+    graph.nodes.delete(id);
+    graph.upEdges.delete(id);
+    graph.downEdges.delete(id);
+    graph.nodeDepth.delete(id);
+    graph.supplyShares.delete(id);
+    graph.positions.delete(id);
+  }
+  for (const [id, parents] of graph.upEdges) {
+    graph.upEdges.set(
+      id,
+      parents.filter((parentId) => reachable.has(parentId)),
+    );
+  }
+}
+
 type SeverEdgeError =
   | { kind: "no-edge"; direction: "up" | "down"; from: NodeID; to: NodeID }
   | Inconsistency;
 
-/** Works only for Directed Acyclic Graphs. Will loop forever if there is a cycle. */
+/**
+ * Deletes `to` once it has no parents left. Nodes that are still consumed by
+ * another node of their cycle stay, see `removeUnreachable`.
+ */
 function severEdge(
   graph: RecipeGraph,
   from: NodeID,
   to: NodeID,
 ): Result<void, SeverEdgeError> {
   console.debug("severEdge", from, to);
-  const upEdges = graph.upEdges.get(to);
+  const upEdges = editEdges(graph.upEdges, to);
   if (!upEdges)
     return Result.err({ kind: "no-edge", direction: "up", from, to });
   const idxUp = upEdges.findIndex((id) => id === from);
   if (idxUp === -1)
     return Result.err({ kind: "no-edge", direction: "up", from, to });
 
-  const downEdges = graph.downEdges.get(from);
+  const downEdges = editEdges(graph.downEdges, from);
   if (!downEdges)
     return Result.err({ kind: "no-edge", direction: "down", from, to });
   const idxDown = downEdges.findIndex((id) => id === to);
@@ -238,6 +1655,8 @@ function severEdge(
   downEdges.splice(idxDown, 1);
 
   if (upEdges.length === 0) {
+    // Roots supplying other nodes with their byproducts stay in the plan
+    if (graph.nodes.get(to)?.type === "root") return Result.void;
     return deleteNode(graph, to);
   }
 
@@ -265,25 +1684,28 @@ function severEdge(
   return Result.void;
 }
 
-/** Works only for Directed Acyclic Graphs. Will loop forever if there is a cycle. */
+/** Deletes the node along with every child that is left without parents */
 function deleteNode(
   graph: RecipeGraph,
   node: NodeID,
 ): Result<void, SeverEdgeError> {
   graph.nodes.delete(node);
+  graph.supplyShares.delete(node);
+  graph.positions.delete(node);
   const depth = graph.nodeDepth.get(node);
   if (depth === undefined) return inconsistency("Missing depth", { node });
-  graph.nodesOnLevel[depth] -= 1;
-  graph.nodeDepth.delete(node);
   graph.upEdges.delete(node);
 
-  const downEdges = graph.downEdges.get(node);
-  if (!downEdges) return Result.void;
-
-  for (const childId of downEdges) {
+  // severEdge removes edges from the array we are iterating over. Children
+  // still count this node among their parents until their edge is severed, so
+  // its depth has to stay around until then
+  for (const childId of Array.from(graph.downEdges.get(node) ?? [])) {
     const res = severEdge(graph, node, childId);
     if (res.err) return res;
   }
+  graph.downEdges.delete(node);
+  graph.nodesOnLevel[depth] -= 1;
+  graph.nodeDepth.delete(node);
 
   return Result.void;
 }
@@ -295,17 +1717,33 @@ function nodeMergeItem(node: RecipeNode) {
     case "root":
       return undefined;
     case "intermediate":
-      return node.recipe.results[0];
     case "terminal":
+    case "resource":
       return node.item;
   }
 }
 
-export function canMerge(a: MergableNode, b: MergableNode): true;
-export function canMerge(a: RootNode, b: RecipeNode): false;
-export function canMerge(a: RecipeNode, b: RootNode): false;
-export function canMerge(a: RecipeNode, b: RecipeNode): boolean;
+/**
+ * Nodes producing the same item can be merged. Terminal nodes can also be
+ * merged into any node that has their item among its outputs, byproducts
+ * included.
+ */
 export function canMerge(a: RecipeNode, b: RecipeNode) {
+  if (a.id === b.id) return false;
+  // Resources stay extracted, a producer taking over would drop the extractor
+  if (isLeaf(a) && !isLeaf(b)) {
+    return a.type === "terminal" && producesItem(b, a.item);
+  }
+  if (isLeaf(b) && !isLeaf(a)) {
+    return b.type === "terminal" && producesItem(a, b.item);
+  }
+  if (
+    a.type === "intermediate" &&
+    b.type === "intermediate" &&
+    a.recipe.name !== b.recipe.name
+  ) {
+    return false;
+  }
   const aItem = nodeMergeItem(a);
   const bItem = nodeMergeItem(b);
   if (!aItem || !bItem) return false;
@@ -316,30 +1754,195 @@ type MergeError =
   | { kind: "node-not-found"; node: NodeID }
   | "incompatible-node-items"
   | { kind: "incompatible-node-types"; left: RecipeNode; right: RecipeNode }
+  | { kind: "incompatible-recipes"; left: Recipe; right: Recipe }
+  | { kind: "merging-with-downstream"; left: RecipeNode; right: RecipeNode }
+  | { kind: "mismatched-inputs"; left: RecipeNode; right: RecipeNode }
+  | { kind: "extracted-resource"; node: ResourceNode }
   | {
       kind: "merging-downstream";
       left: MergableNode;
       right: MergableNode;
       [cause]: MergeError;
     }
-  | Inconsistency;
+  | RateError;
 
-/** Mutates graph passed in */
 export function mergeNodes(
   graph: RecipeGraph,
   node: NodeID,
   withNode: NodeID,
+): Result<RecipeGraph, MergeError> {
+  return updateGraph(graph, (draft) => mergeInPlace(draft, node, withNode));
+}
+
+/** NOTE: Mutates graph parameter passed in */
+function mergeInPlace(
+  graph: RecipeGraph,
+  node: NodeID,
+  withNode: NodeID,
 ): Result<void, MergeError> {
   const a = graph.nodes.get(node);
   if (!a) return Result.err({ kind: "node-not-found", node });
   const b = graph.nodes.get(withNode);
   if (!b) return Result.err({ kind: "node-not-found", node: withNode });
 
-  if (a.type === "root" || b.type === "root") {
+  let res: Result<void, MergeError>;
+  if (isLeaf(a) && !isLeaf(b)) {
+    res = supplyTerminal(graph, a, b);
+  } else if (isLeaf(b) && !isLeaf(a)) {
+    res = supplyTerminal(graph, b, a);
+  } else if (a.type === "root" || b.type === "root") {
     return Result.err({ kind: "incompatible-node-types", left: a, right: b });
+  } else if (
+    downstreamNodes(graph, a.id).has(b.id) ||
+    downstreamNodes(graph, b.id).has(a.id)
+  ) {
+    return Result.err({ kind: "merging-with-downstream", left: a, right: b });
+  } else {
+    res = mergeNodesInner(graph, a, b);
+  }
+  if (res.err) return res;
+
+  // Merging may have closed a cycle
+  const depths = recomputeDepths(graph);
+  if (depths.err) return depths;
+  return propagateRates(graph);
+}
+
+export type FailedMerge = { node: NodeID; with: NodeID; error: MergeError };
+
+export type MergeReport = {
+  graph: RecipeGraph;
+  /** Number of merges that went through */
+  merged: number;
+  failed: FailedMerge[];
+};
+
+/**
+ * Merges every pair of nodes producing the same item, over and over until no
+ * pair is left. Pairs where one node is downstream of the other are left
+ * alone, as merging them would close a cycle, and so are nodes running
+ * different recipes. A merge that fails is skipped, the rest carry on. Every
+ * pair left unmerged is reported along with the reason.
+ */
+export function mergeDuplicates(graph: RecipeGraph): MergeReport {
+  const report: MergeReport = { graph, merged: 0, failed: [] };
+  const attempted = new Set<string>();
+
+  while (true) {
+    const pair = nextDuplicatePair(report.graph, attempted);
+    if (!pair) break;
+    const [node, withNode] = pair;
+    attempted.add(`${node}:${withNode}`);
+
+    const res = mergeNodes(report.graph, node, withNode);
+    if (res.err) {
+      report.failed.push({ node, with: withNode, error: res.error });
+    } else {
+      report.graph = res.value;
+      report.merged += 1;
+    }
+  }
+
+  // Only pairs that were never tried are left to report
+  for (const [a, b] of duplicatePairs(report.graph)) {
+    if (attempted.has(`${a.id}:${b.id}`)) continue;
+    const error = mergeBlocker(report.graph, a, b);
+    if (error) report.failed.push({ node: a.id, with: b.id, error });
+  }
+
+  return report;
+}
+
+function nextDuplicatePair(
+  graph: RecipeGraph,
+  attempted: Set<string>,
+): [NodeID, NodeID] | undefined {
+  for (const [a, b] of duplicatePairs(graph)) {
+    if (attempted.has(`${a.id}:${b.id}`)) continue;
+    if (mergeBlocker(graph, a, b)) continue;
+    return [a.id, b.id];
+  }
+}
+
+/** Every pair of nodes, other than roots, producing the same item */
+function* duplicatePairs(graph: RecipeGraph) {
+  const nodes = Array.from(graph.nodes.values()).filter(
+    (node): node is MergableNode => node.type !== "root",
+  );
+  for (const [i, a] of nodes.entries()) {
+    for (const b of nodes.slice(i + 1)) {
+      if (itemEq(a.item, b.item)) yield [a, b] as const;
+    }
   }
+}
+
+/** Why `mergeDuplicates` leaves the pair alone, nothing if it does not */
+function mergeBlocker(
+  graph: RecipeGraph,
+  a: MergableNode,
+  b: MergableNode,
+): MergeError | undefined {
+  if (!canMerge(a, b)) {
+    if (a.type === "intermediate" && b.type === "intermediate")
+      return { kind: "incompatible-recipes", left: a.recipe, right: b.recipe };
+    if (a.type === "resource") return { kind: "extracted-resource", node: a };
+    if (b.type === "resource") return { kind: "extracted-resource", node: b };
+    return "incompatible-node-items";
+  }
+  if (
+    downstreamNodes(graph, a.id).has(b.id) ||
+    downstreamNodes(graph, b.id).has(a.id)
+  ) {
+    return { kind: "merging-with-downstream", left: a, right: b };
+  }
+}
+
+/**
+ * Reroutes every consumer of the terminal node to `producer`, which has the
+ * terminal's item among its outputs, and removes the terminal node.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function supplyTerminal(
+  graph: RecipeGraph,
+  terminal: LeafNode,
+  producer: ProducingNode,
+): Result<void, MergeError> {
+  // Extraction set up for the resource would quietly leave the plan
+  if (terminal.type === "resource") {
+    return Result.err({ kind: "extracted-resource", node: terminal });
+  }
+  if (!producesItem(producer, terminal.item)) {
+    return Result.err("incompatible-node-items");
+  }
+  const producerUpEdges = [...(graph.upEdges.get(producer.id) ?? [])];
+  for (const parentId of graph.upEdges.get(terminal.id) ?? []) {
+    const downEdges = editEdges(graph.downEdges, parentId);
+    const idx = downEdges?.indexOf(terminal.id) ?? -1;
+    if (!downEdges || idx === -1) {
+      return inconsistency(
+        "While supplying terminal, found upnode with no edge to terminal",
+        { node: parentId, upedgeFrom: terminal.id },
+      );
+    }
+    if (downEdges.includes(producer.id)) {
+      downEdges.splice(idx, 1);
+    } else {
+      downEdges[idx] = producer.id;
+      producerUpEdges.push(parentId);
+    }
+  }
+  graph.upEdges.set(producer.id, producerUpEdges);
+
+  redirectShares(graph, terminal.id, producer.id);
 
-  return mergeNodesInner(graph, a, b);
+  graph.nodes.delete(terminal.id);
+  graph.positions.delete(terminal.id);
+  graph.upEdges.delete(terminal.id);
+  graph.downEdges.delete(terminal.id);
+  graph.nodeDepth.delete(terminal.id);
+
+  return Result.void;
 }
 
 function mergeNodesInner(
@@ -347,17 +1950,19 @@ function mergeNodesInner(
   node: MergableNode,
   withNode: MergableNode,
 ): Result<void, MergeError> {
-  if (node.type === "terminal" && withNode.type === "terminal") {
+  // Both were drawing from the same node already
+  if (node.id === withNode.id) return Result.void;
+  if (isLeaf(node) && isLeaf(withNode)) {
     return mergeTerminals(graph, node, withNode);
   } else if (node.type === "intermediate" && withNode.type === "intermediate") {
     return mergeIntermediates(graph, node, withNode);
-  } else if (node.type === "intermediate" && withNode.type === "terminal") {
+  } else if (node.type === "intermediate" && isLeaf(withNode)) {
     return Result.err({
       kind: "incompatible-node-types",
       left: node,
       right: withNode,
     });
-  } else if (node.type === "terminal" && withNode.type === "intermediate") {
+  } else if (isLeaf(node) && withNode.type === "intermediate") {
     return Result.err({
       kind: "incompatible-node-types",
       left: node,
@@ -372,8 +1977,24 @@ function mergeIntermediates(
   node: IntermediateNode,
   withNode: IntermediateNode,
 ) {
-  if (!itemEq(node.recipe.results[0], withNode.recipe.results[0]))
+  if (!itemEq(node.item, withNode.item))
     return Result.err("incompatible-node-items");
+  if (node.recipe.name !== withNode.recipe.name) {
+    return Result.err({
+      kind: "incompatible-recipes",
+      left: node.recipe,
+      right: withNode.recipe,
+    });
+  }
+  // Inputs get merged pairwise, which falls apart once one of them has been
+  // supplied from elsewhere
+  if (inputItems(graph, node.id) !== inputItems(graph, withNode.id)) {
+    return Result.err({
+      kind: "mismatched-inputs",
+      left: node,
+      right: withNode,
+    });
+  }
 
   const res = mergeDepths({
     graph,
@@ -383,12 +2004,11 @@ function mergeIntermediates(
   });
   if (res.err) return res;
 
+  // The node merged into keeps its machines and modules
   const replacementNode: IntermediateNode = {
-    id: node.id,
-    type: "intermediate",
-    recipe: node.recipe,
-    machine: node.machine,
+    ...node,
     desiredProduction: node.desiredProduction + withNode.desiredProduction,
+    surplus: [],
   };
 
   graph.nodes.set(replacementNode.id, replacementNode);
@@ -397,7 +2017,7 @@ function mergeIntermediates(
   const targetDownEdges = graph.downEdges.get(node.id) ?? [];
   const fromDownEdges = graph.downEdges.get(withNode.id) ?? [];
 
-  const replacementUpEdges = graph.upEdges.get(node.id);
+  const replacementUpEdges = editEdges(graph.upEdges, node.id);
   if (!replacementUpEdges) {
     return inconsistency(
       "While merging intermediates, found node with no up edges",
@@ -406,7 +2026,7 @@ function mergeIntermediates(
   }
 
   const res2 = iterate(upnodes(graph, withNode.id), (upnode) => {
-    const downEdges = graph.downEdges.get(upnode.id);
+    const downEdges = editEdges(graph.downEdges, upnode.id);
     if (!downEdges) {
       return inconsistency(
         "While merging intermediates, found upnode with no down edges",
@@ -420,13 +2040,18 @@ function mergeIntermediates(
         { node: upnode.id, upedgeFrom: withNode.id },
       );
     }
-    downEdges[oldEdge] = replacementNode.id;
-    replacementUpEdges.push(upnode.id);
+    // Consumer may have been drawing from both nodes
+    if (downEdges.includes(replacementNode.id)) {
+      downEdges.splice(oldEdge, 1);
+    } else {
+      downEdges[oldEdge] = replacementNode.id;
+      replacementUpEdges.push(upnode.id);
+    }
   });
   if (res2.err) return res2;
 
   const res3 = iterate(downnodes(graph, withNode.id), (downnode) => {
-    const upEdges = graph.upEdges.get(downnode.id);
+    const upEdges = editEdges(graph.upEdges, downnode.id);
     if (!upEdges) {
       return inconsistency(
         "While merging intermediates, found downnode with no up edges",
@@ -446,6 +2071,9 @@ function mergeIntermediates(
 
   graph.upEdges.delete(withNode.id);
   graph.downEdges.delete(withNode.id);
+  graph.supplyShares.delete(withNode.id);
+  graph.positions.delete(withNode.id);
+  redirectShares(graph, withNode.id, node.id);
 
   return iterate(
     zipDownstreamNodes(graph, targetDownEdges, fromDownEdges),
@@ -458,6 +2086,17 @@ function mergeIntermediates(
   );
 }
 
+function inputItems(graph: RecipeGraph, id: NodeID) {
+  return (graph.downEdges.get(id) ?? [])
+    .map((childId) => {
+      const child = graph.nodes.get(childId);
+      const item = child && nodeMergeItem(child);
+      return item ? itemKey(item) : "";
+    })
+    .sort()
+    .join(",");
+}
+
 function* zipDownstreamNodes(
   graph: RecipeGraph,
   left: Iterable<NodeID>,
@@ -509,20 +2148,36 @@ function* zipDownstreamNodes(
 
 function mergeTerminals(
   graph: RecipeGraph,
-  node: TerminalNode,
-  withNode: TerminalNode,
+  node: LeafNode,
+  withNode: LeafNode,
 ) {
   if (!itemEq(node.item, withNode.item)) {
     return Result.err("incompatible-node-items");
   }
 
-  const replacementNode: TerminalNode = {
-    id: node.id,
-    type: "terminal",
-    item: node.item,
-    requiredAmount: node.requiredAmount + withNode.requiredAmount,
-    producedByRecipes: node.producedByRecipes,
-  };
+  // Extraction set up for either of them carries over
+  const extractor =
+    node.type === "resource"
+      ? node.extractor
+      : withNode.type === "resource"
+      ? withNode.extractor
+      : undefined;
+  const requiredAmount = node.requiredAmount + withNode.requiredAmount;
+  const replacementNode: LeafNode = extractor
+    ? {
+        id: node.id,
+        type: "resource",
+        item: node.item,
+        requiredAmount,
+        extractor,
+      }
+    : {
+        id: node.id,
+        type: "terminal",
+        item: node.item,
+        requiredAmount,
+        producedByRecipes: recipesForResult(node.item),
+      };
 
   const res = mergeDepths({
     graph,
@@ -535,7 +2190,7 @@ function mergeTerminals(
   graph.nodes.set(replacementNode.id, replacementNode);
   graph.nodes.delete(withNode.id);
 
-  const replacementUpEdges = graph.upEdges.get(replacementNode.id);
+  const replacementUpEdges = editEdges(graph.upEdges, replacementNode.id);
   if (!replacementUpEdges) {
     return inconsistency(
       "While merging intermediates, found node with no up edges",
@@ -544,7 +2199,7 @@ function mergeTerminals(
   }
 
   const res2 = iterate(upnodes(graph, withNode.id), (upnode) => {
-    const downEdges = graph.downEdges.get(upnode.id);
+    const downEdges = editEdges(graph.downEdges, upnode.id);
     if (!downEdges) {
       return inconsistency(
         "While merging intermediates, found upnode with no down edges",
@@ -558,17 +2213,209 @@ function mergeTerminals(
         { node: upnode.id, upedgeFrom: withNode.id },
       );
     }
-    downEdges[oldEdge] = replacementNode.id;
-    replacementUpEdges.push(upnode.id);
+    // Consumer may have been drawing from both nodes
+    if (downEdges.includes(replacementNode.id)) {
+      downEdges.splice(oldEdge, 1);
+    } else {
+      downEdges[oldEdge] = replacementNode.id;
+      replacementUpEdges.push(upnode.id);
+    }
   });
   if (res2.err) return res2;
 
   graph.upEdges.delete(withNode.id);
   graph.downEdges.delete(withNode.id);
+  graph.supplyShares.delete(withNode.id);
+  graph.positions.delete(withNode.id);
+  redirectShares(graph, withNode.id, replacementNode.id);
 
   return Result.void;
 }
 
+/**
+ * Hands supply shares of a node that is merged away over to the node it was
+ * merged into.
+ *
+ * NOTE: Mutates graph parameter passed in
+ */
+function redirectShares(graph: RecipeGraph, from: NodeID, to: NodeID) {
+  for (const [consumer, shares] of graph.supplyShares) {
+    const redirected: SupplyShare[] = [];
+    for (const share of shares) {
+      const supplier = share.supplier === from ? to : share.supplier;
+      const existing = redirected.find(
+        (other) =>
+          other.supplier === supplier && itemEq(other.item, share.item),
+      );
+      if (existing) existing.share += share.share;
+      else redirected.push({ ...share, supplier });
+    }
+    graph.supplyShares.set(consumer, redirected);
+  }
+}
+
+/**
+ * Consumers of the node that could each get a copy of it. Nodes in a cycle
+ * with the node don't count, they are part of what gets copied.
+ */
+function splittableParents(graph: RecipeGraph, nodeID: NodeID) {
+  const downstream = downstreamNodes(graph, nodeID);
+  return Array.from(new Set(graph.upEdges.get(nodeID) ?? [])).filter(
+    (parentId) => !downstream.has(parentId),
+  );
+}
+
+/** Node along with everything it draws from, however indirectly */
+function downstreamNodes(graph: RecipeGraph, nodeID: NodeID) {
+  const found = new Set<NodeID>();
+  const stack = [nodeID];
+  while (true) {
+    const id = stack.pop();
+    if (id === undefined) break;
+    if (found.has(id)) continue;
+    found.add(id);
+    stack.push(...(graph.downEdges.get(id) ?? []));
+  }
+  return found;
+}
+
+/** Whether the node was merged and can be split between its consumers */
+export function canUnmerge(graph: RecipeGraph, nodeID: NodeID) {
+  const node = graph.nodes.get(nodeID);
+  if (!node || node.type === "root") return false;
+  return splittableParents(graph, nodeID).length > 1;
+}
+
+type UnmergeError =
+  | { kind: "node-not-found"; node: NodeID }
+  | { kind: "unsupported-node"; node: RecipeNode }
+  | { kind: "not-merged"; node: NodeID }
+  | RateError;
+
+/**
+ * Reverses merges of the node: every consumer gets its own copy of the node,
+ * running only as fast as that consumer needs. Nodes downstream that nothing
+ * but the node draws from are copied along with it. Those that something else
+ * consumes as well stay shared, and every copy draws from them.
+ */
+export function unmergeNode(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+): Result<RecipeGraph, UnmergeError> {
+  return updateGraph(graph, (draft) => unmergeInPlace(draft, nodeID));
+}
+
+/** NOTE: Mutates graph parameter passed in */
+function unmergeInPlace(
+  graph: RecipeGraph,
+  nodeID: NodeID,
+): Result<void, UnmergeError> {
+  const node = graph.nodes.get(nodeID);
+  if (!node) return Result.err({ kind: "node-not-found", node: nodeID });
+  if (node.type === "root")
+    return Result.err({ kind: "unsupported-node", node });
+
+  const parents = splittableParents(graph, nodeID);
+  if (parents.length <= 1)
+    return Result.err({ kind: "not-merged", node: nodeID });
+
+  const order = topologicalOrder(graph);
+  if (order.err) return order;
+  const downstream = downstreamNodes(graph, nodeID);
+  const owned = new Set([nodeID]);
+  for (const id of order.value) {
+    if (id === nodeID || !downstream.has(id)) continue;
+    if (graph.nodes.get(id)?.type === "root") continue;
+    const parentIds = (graph.upEdges.get(id) ?? []).filter(
+      (parentId) => !isFeedbackEdge(graph, parentId, id),
+    );
+    if (
+      parentIds.length > 0 &&
+      parentIds.every((parentId) => owned.has(parentId))
+    ) {
+      owned.add(id);
+    }
+  }
+
+  // The first consumer keeps the original nodes
+  for (const parentId of parents.slice(1)) {
+    const copies = new Map<NodeID, NodeID>();
+    for (const id of owned) copies.set(id, nextNodeID(graph));
+
+    for (const [id, copyId] of copies) {
+      const original = graph.nodes.get(id);
+      if (!original) return inconsistency("Missing node", { node: id });
+      graph.nodes.set(
+        copyId,
+        isLeaf(original)
+          ? { ...original, id: copyId }
+          : { ...original, id: copyId, surplus: [...original.surplus] },
+      );
+
+      const downEdges = graph.downEdges.get(id);
+      if (downEdges) {
+        graph.downEdges.set(
+          copyId,
+          downEdges.map((childId) => copies.get(childId) ?? childId),
+        );
+        // Shared nodes get the copy as another consumer
+        for (const childId of downEdges) {
+          if (copies.has(childId)) continue;
+          editEdges(graph.upEdges, childId)?.push(copyId);
+        }
+      }
+
+      // Nodes outside of the copied part keep feeding the originals only
+      const upEdges = (graph.upEdges.get(id) ?? []).flatMap((upId) => {
+        const copy = copies.get(upId);
+        return copy === undefined ? [] : [copy];
+      });
+      if (id === nodeID) upEdges.unshift(parentId);
+      graph.upEdges.set(copyId, upEdges);
+
+      const shares = graph.supplyShares.get(id);
+      if (shares) {
+        graph.supplyShares.set(
+          copyId,
+          shares.map((share) => ({
+            ...share,
+            supplier: copies.get(share.supplier) ?? share.supplier,
+          })),
+        );
+      }
+    }
+
+    const copyId = copies.get(nodeID)!;
+    const parentDownEdges = graph.downEdges.get(parentId);
+    if (!parentDownEdges) {
+      return inconsistency("Missing down edges from nonterminal node", {
+        node: parentId,
+      });
+    }
+    graph.downEdges.set(
+      parentId,
+      parentDownEdges.map((childId) => (childId === nodeID ? copyId : childId)),
+    );
+    graph.upEdges.set(
+      nodeID,
+      (graph.upEdges.get(nodeID) ?? []).filter((upId) => upId !== parentId),
+    );
+    const parentShares = graph.supplyShares.get(parentId);
+    if (parentShares) {
+      graph.supplyShares.set(
+        parentId,
+        parentShares.map((share) =>
+          share.supplier === nodeID ? { ...share, supplier: copyId } : share,
+        ),
+      );
+    }
+  }
+
+  const depths = recomputeDepths(graph);
+  if (depths.err) return depths;
+  return propagateRates(graph);
+}
+
 type MergeDeptsParams = {
   graph: RecipeGraph;
   node: NodeID;
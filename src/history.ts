@@ -0,0 +1,179 @@
+import type { Action, NodeID, RecipeGraph } from "./graph"
+
+type PatchedMap = {
+  [K in keyof RecipeGraph]: RecipeGraph[K] extends Map<NodeID, any> ? K : never
+}[keyof RecipeGraph]
+
+/** Fields that are replaced as a whole rather than entry by entry */
+type PlainField =
+  | "nodesOnLevel"
+  | "suppliedItems"
+  | "nodesIssued"
+  | "miningResearch"
+
+type EntryChange = {
+  map: PatchedMap
+  key: NodeID
+  /** `undefined` when there was no entry */
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Changes a single action made to the graph. Only the map entries that
+ * differ are kept, so a step costs about as much as the nodes it touched.
+ */
+export type GraphPatch = {
+  action: Action
+  changes: EntryChange[]
+  before: Pick<RecipeGraph, PlainField>
+  after: Pick<RecipeGraph, PlainField>
+}
+
+const patchedMaps: PatchedMap[] = [
+  "nodes",
+  "downEdges",
+  "upEdges",
+  "nodeDepth",
+  "feedbackEdges",
+  "supplyShares",
+  "positions",
+]
+
+/**
+ * Compares graph before the action to the one after it. Returns `undefined`
+ * if the action changed nothing. Entries the graphs share are skipped right
+ * away, so this costs about as much as the action itself.
+ */
+export function diffGraphs(
+  before: RecipeGraph,
+  after: RecipeGraph,
+  action: Action,
+): GraphPatch | undefined {
+  const changes: EntryChange[] = []
+  for (const map of patchedMaps) {
+    const beforeMap: Map<NodeID, unknown> = before[map]
+    const afterMap: Map<NodeID, unknown> = after[map]
+    const keys = new Set([...beforeMap.keys(), ...afterMap.keys()])
+    for (const key of keys) {
+      const beforeValue = beforeMap.get(key)
+      const afterValue = afterMap.get(key)
+      if (deepEqual(beforeValue, afterValue)) continue
+      changes.push({ map, key, before: beforeValue, after: afterValue })
+    }
+  }
+
+  const plainChanged =
+    !deepEqual(before.nodesOnLevel, after.nodesOnLevel) ||
+    !deepEqual(before.suppliedItems, after.suppliedItems) ||
+    before.nodesIssued !== after.nodesIssued ||
+    before.miningResearch !== after.miningResearch
+  if (changes.length === 0 && !plainChanged) return
+
+  return {
+    action,
+    changes,
+    before: {
+      nodesOnLevel: before.nodesOnLevel,
+      suppliedItems: before.suppliedItems,
+      nodesIssued: before.nodesIssued,
+      miningResearch: before.miningResearch,
+    },
+    after: {
+      nodesOnLevel: after.nodesOnLevel,
+      suppliedItems: after.suppliedItems,
+      nodesIssued: after.nodesIssued,
+      miningResearch: after.miningResearch,
+    },
+  }
+}
+
+/** Graph with one side of the patch applied, the rest shared with `graph` */
+function applyPatch(
+  graph: RecipeGraph,
+  patch: GraphPatch,
+  side: "before" | "after",
+): RecipeGraph {
+  const patched: RecipeGraph = { ...graph, ...patch[side] }
+  const copied = new Set<PatchedMap>()
+  for (const change of patch.changes) {
+    if (!copied.has(change.map)) {
+      const original: Map<NodeID, unknown> = graph[change.map]
+      Object.assign(patched, { [change.map]: new Map(original) })
+      copied.add(change.map)
+    }
+    const map: Map<NodeID, unknown> = patched[change.map]
+    const value = change[side]
+    if (value === undefined) map.delete(change.key)
+    else map.set(change.key, value)
+  }
+  return patched
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false
+  if (a instanceof Set) {
+    if (!(b instanceof Set) || a.size !== b.size) return false
+    return Array.from(a).every(value => b.has(value))
+  }
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false
+    return a.every((value, i) => deepEqual(value, b[i]))
+  }
+  const aKeys = Object.keys(a)
+  if (aKeys.length !== Object.keys(b).length) return false
+  return aKeys.every(key =>
+    deepEqual(a[key as keyof typeof a], b[key as keyof typeof b]),
+  )
+}
+
+export type HistoryProps = {
+  /** Number of steps to keep, the oldest ones are dropped first */
+  limit: number
+}
+
+export function initHistory({ limit }: HistoryProps) {
+  const undoStack: GraphPatch[] = []
+  const redoStack: GraphPatch[] = []
+
+  return {
+    record(patch: GraphPatch) {
+      undoStack.push(patch)
+      if (undoStack.length > limit) undoStack.shift()
+      redoStack.length = 0
+    },
+
+    /** Graph as it was before the last action, along with that action */
+    undo(graph: RecipeGraph) {
+      const patch = undoStack.pop()
+      if (!patch) return
+      redoStack.push(patch)
+      return { graph: applyPatch(graph, patch, "before"), action: patch.action }
+    },
+
+    /** Graph with the last undone action made again, along with that action */
+    redo(graph: RecipeGraph) {
+      const patch = redoStack.pop()
+      if (!patch) return
+      undoStack.push(patch)
+      return { graph: applyPatch(graph, patch, "after"), action: patch.action }
+    },
+
+    /** Forgets every step, e.g. once another plan is opened */
+    clear() {
+      undoStack.length = 0
+      redoStack.length = 0
+    },
+
+    get nextUndo(): Action | undefined {
+      return undoStack[undoStack.length - 1]?.action
+    },
+
+    get nextRedo(): Action | undefined {
+      return redoStack[redoStack.length - 1]?.action
+    },
+  }
+}
+
+export type History = ReturnType<typeof initHistory>
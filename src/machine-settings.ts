@@ -0,0 +1,87 @@
+import { categoryMachines, machineItem, machineName } from "./machine"
+import { MachinePreferences, saveMachinePreferences } from "./preferences"
+import { Category, allCategories } from "./recipe"
+
+export type MachineSettingsProps = {
+  dialog: HTMLDialogElement
+  preferences: MachinePreferences
+  /** Moves the nodes of the open plan to the preferred machines */
+  reapply(): void
+}
+
+/**
+ * Dialog picking the machine new nodes of each recipe category are made in.
+ * Every change is saved right away, nodes already in the plan keep their
+ * machines until the preferences are reapplied to them.
+ */
+export function initMachineSettings({
+  dialog,
+  preferences,
+  reapply,
+}: MachineSettingsProps) {
+  const list = dialog.querySelector(".machine-preferences") as HTMLUListElement
+  const reapplyButton = dialog.querySelector(
+    ".machine-reapply",
+  ) as HTMLButtonElement
+
+  reapplyButton.addEventListener("click", () => {
+    reapply()
+    dialog.close()
+  })
+
+  function render() {
+    list.replaceChildren(...allCategories.map(categoryRow))
+  }
+
+  function categoryRow(category: Category) {
+    const row = document.createElement("li")
+    row.className = "settings-row"
+
+    const label = document.createElement("span")
+    label.textContent = categoryName(category)
+
+    const options = categoryMachines(category)
+    const current = preferences.get(category) ?? machineItem(options[0]).name
+    const select = document.createElement("select")
+    select.className = "settings-input machine-select"
+    select.title = `Machine for ${categoryName(category).toLowerCase()}`
+    select.disabled = options.length === 1
+    select.append(
+      ...options.map(machine => {
+        const name = machineItem(machine).name
+        return new Option(machineName(machine), name, false, name === current)
+      }),
+    )
+    select.addEventListener("change", () => {
+      preferences.set(category, select.value)
+      saveMachinePreferences(preferences)
+    })
+
+    row.append(label, select)
+    return row
+  }
+
+  return {
+    open() {
+      render()
+      dialog.showModal()
+    },
+  }
+}
+
+function categoryName(category: Category) {
+  switch (category) {
+    case "crafting":
+      return "Crafting"
+    case "crafting-with-fluid":
+      return "Crafting with fluids"
+    case "smelting":
+      return "Smelting"
+    case "chemistry":
+      return "Chemistry"
+    case "oil-processing":
+      return "Oil processing"
+    case "centrifuging":
+      return "Centrifuging"
+  }
+}
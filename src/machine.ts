@@ -1,13 +1,28 @@
-import type { Item, Recipe } from "./recipe";
+import type { Category, Item, Recipe } from "./recipe";
 import type { NonEmpty } from "./util";
+import { RATE_EPSILON, craftsPerSecond } from "./rates";
+import { ModuleSetup, moduleMultipliers } from "./modules";
 
 export type Machine =
   | { type: "assembly-machine"; tier: 1 | 2 | 3 }
   | { type: "furnace"; tier: 1 | 2 | 3 }
   | { type: "chemical-plant" }
+  | { type: "oil-refinery" }
+  | { type: "centrifuge" }
 
 export function madeIn(recipe: Recipe): NonEmpty<Machine> {
-  switch (recipe.category) {
+  return categoryMachines(recipe.category)
+}
+
+/** Picks the machine a new node makes its recipe in */
+export type MachineChoice = (recipe: Recipe) => Machine
+
+/** Slowest machine that can make the recipe, the first one `madeIn` lists */
+export const firstMachine: MachineChoice = recipe => madeIn(recipe)[0]
+
+/** Machines that make recipes of the category, slowest first */
+export function categoryMachines(category: Category): NonEmpty<Machine> {
+  switch (category) {
     case "crafting":
       return [
         { type: "assembly-machine", tier: 1 },
@@ -27,20 +42,53 @@ export function madeIn(recipe: Recipe): NonEmpty<Machine> {
       ]
     case "chemistry":
       return [{ type: "chemical-plant" }]
+    case "oil-processing":
+      return [{ type: "oil-refinery" }]
+    case "centrifuging":
+      return [{ type: "centrifuge" }]
   }
 }
 
-export function craftingSpeed(machine: Machine) {
+/** Crafting speed of the machine, sped up or slowed down by its modules */
+export function craftingSpeed(machine: Machine, modules?: ModuleSetup) {
+  return baseSpeed(machine) * moduleMultipliers(modules).speed
+}
+
+function baseSpeed(machine: Machine) {
   switch (machine.type) {
     case "assembly-machine":
-      return machine.tier
+      switch (machine.tier) {
+        case 1:
+          return 0.5
+        case 2:
+          return 0.75
+        case 3:
+          return 1.25
+      }
     case "furnace":
-      return Math.max(2, machine.tier)
+      return machine.tier === 1 ? 1 : 2
     case "chemical-plant":
+    case "oil-refinery":
+    case "centrifuge":
       return 1
   }
 }
 
+/** Modules the machine takes. Beacons reach only machines with slots */
+export function moduleSlots(machine: Machine) {
+  switch (machine.type) {
+    case "assembly-machine":
+      return (machine.tier - 1) * 2
+    case "furnace":
+      return machine.tier === 3 ? 2 : 0
+    case "chemical-plant":
+    case "oil-refinery":
+      return 3
+    case "centrifuge":
+      return 2
+  }
+}
+
 export function machineName(machine: Machine) {
   switch (machine.type) {
     case "assembly-machine":
@@ -63,6 +111,10 @@ export function machineName(machine: Machine) {
       }
     case "chemical-plant":
       return "Chemical Plants"
+    case "oil-refinery":
+      return "Oil Refineries"
+    case "centrifuge":
+      return "Centrifuges"
   }
 }
 
@@ -85,6 +137,10 @@ export function machineItem(machine: Machine): Item {
       }
     case "chemical-plant":
       return { name: "chemical-plant", type: "item" }
+    case "oil-refinery":
+      return { name: "oil-refinery", type: "item" }
+    case "centrifuge":
+      return { name: "centrifuge", type: "item" }
   }
 }
 
@@ -92,9 +148,90 @@ export function machineCount(
   recipe: Recipe,
   desiredProduction: number,
   machine: Machine,
+  product?: Item,
+  modules?: ModuleSetup,
 ) {
   const craftingTime = recipe.energyRequired
-  const resultCount = recipe.results[0].amount
-  return (craftingTime * desiredProduction) / resultCount / craftingSpeed(machine)
+  // Productivity makes every craft yield more, so fewer crafts are needed
+  const crafts =
+    craftsPerSecond(recipe, desiredProduction, product) /
+    moduleMultipliers(modules).productivity
+  return (crafts * craftingTime) / craftingSpeed(machine, modules)
+}
+
+/**
+ * Energy a machine takes, in watts. Electric machines draw `drain` all the
+ * time and `active` on top of it while crafting. Burner machines burn fuel at
+ * `active` while crafting and take nothing otherwise.
+ */
+export type MachineEnergy =
+  | { source: "electric"; active: number; drain: number }
+  | { source: "burner"; active: number }
+
+export function machineEnergy(machine: Machine): MachineEnergy {
+  switch (machine.type) {
+    case "assembly-machine":
+      switch (machine.tier) {
+        case 1:
+          return { source: "electric", active: 75e3, drain: 2.5e3 }
+        case 2:
+          return { source: "electric", active: 150e3, drain: 5e3 }
+        case 3:
+          return { source: "electric", active: 375e3, drain: 12.5e3 }
+      }
+    case "furnace":
+      switch (machine.tier) {
+        case 1:
+        case 2:
+          return { source: "burner", active: 90e3 }
+        case 3:
+          return { source: "electric", active: 180e3, drain: 6e3 }
+      }
+    case "chemical-plant":
+      return { source: "electric", active: 210e3, drain: 7e3 }
+    case "oil-refinery":
+      return { source: "electric", active: 420e3, drain: 14e3 }
+    case "centrifuge":
+      return { source: "electric", active: 350e3, drain: 11.6e3 }
+  }
 }
 
+/** Watts of electricity and of fuel the machines take, kept apart */
+export type PowerUse = { electric: number; fuel: number }
+
+/** Power taken by `count` machines worth of crafting, as from `machineCount` */
+export function powerUse(
+  machine: Machine,
+  count: number,
+  modules?: ModuleSetup,
+): PowerUse {
+  return energyUse(
+    machineEnergy(machine),
+    count,
+    moduleMultipliers(modules).consumption,
+  )
+}
+
+/** Power `count` machines take, `consumption` scaling their active use */
+export function energyUse(
+  energy: MachineEnergy,
+  count: number,
+  consumption = 1,
+): PowerUse {
+  const active = energy.active * consumption * count
+  if (energy.source === "burner") return { electric: 0, fuel: active }
+  // Every machine that has to be built drains, the one not fully busy too
+  const built = Math.ceil(count - RATE_EPSILON)
+  return { electric: active + energy.drain * built, fuel: 0 }
+}
+
+const powerFormat = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+})
+
+/** Watts in kW below a megawatt and in MW above, e.g. "450 kW" or "1.2 MW" */
+export function formatPower(watts: number) {
+  return watts < 1e6
+    ? `${powerFormat.format(watts / 1e3)} kW`
+    : `${powerFormat.format(watts / 1e6)} MW`
+}
@@ -2,70 +2,454 @@ import "./style.css";
 import "@malien/iterator-polyfill";
 import { initCanvas } from "./canvas";
 import { initSelectionDialog } from "./select-dialog";
-import { recipeMap } from "./recipe";
+import { initRecipePicker } from "./recipe-picker";
+import { initModulePicker } from "./module-picker";
 import {
+  Item,
+  Recipe,
+  itemEq,
+  itemKey,
+  recipeMap,
+  recipeName,
+  t,
+} from "./recipe";
+import { initBusPanel } from "./bus-panel";
+import { initTotalsPanel } from "./totals-panel";
+import { initNoticePanel } from "./notice-panel";
+import { isBeltTier } from "./belts";
+import {
+  Action,
+  FailedMerge,
+  MergeReport,
   NodeID,
+  Position,
   RecipeGraph,
+  addRootNode,
   collapseNode,
+  expandAll,
   expandNode,
+  graphFromPlan,
+  importGraph,
   initialGraph,
+  reapplyMachines,
+  isLeaf,
+  mergeDuplicates,
   mergeNodes,
+  moveNode,
+  unmergeNode,
+  setDesiredProduction,
+  setExtractor,
+  setMachine,
+  setMiningResearch,
+  setModules,
+  setSupplied,
 } from "./graph";
+import { diffGraphs, initHistory } from "./history";
+import { Machine, moduleSlots } from "./machine";
+import { ModuleSetup, allModules, allowsModule } from "./modules";
+import { nodeProduct } from "./rates";
+import { Extractor } from "./resource";
+import { downloadPlan, readPlanFile } from "./plan-file";
+import { isPlanLinkHash, planLinkHash, readPlanLink } from "./plan-link";
+import { initProjectList } from "./project-list";
+import {
+  createProject,
+  lastProject,
+  listProjects,
+  loadProject,
+  saveProject,
+  setLastProject,
+} from "./projects";
+import { initExpandSettings } from "./expand-settings";
+import { initMachineSettings } from "./machine-settings";
+import {
+  isStopItem,
+  loadBeltTier,
+  loadMachinePreferences,
+  loadPreferences,
+  preferredMachine,
+  preferredRecipe,
+  saveBeltTier,
+  savePreferences,
+} from "./preferences";
 import Result from "./result";
+import { Objective, solvePlan } from "./solver";
+
+const HISTORY_LIMIT = 500;
 
 const canvas = document.getElementById("canvas") as HTMLCanvasElement;
 const selectionDialog = document.getElementById(
   "selection-dialog",
 ) as HTMLDialogElement;
+const recipePickerDialog = document.getElementById(
+  "recipe-picker",
+) as HTMLDialogElement;
+const addRootButton = document.getElementById(
+  "add-root-button",
+) as HTMLButtonElement;
+const objectiveSelect = document.getElementById(
+  "objective-select",
+) as HTMLSelectElement;
+const solveButton = document.getElementById(
+  "solve-button",
+) as HTMLButtonElement;
+const modulePickerDialog = document.getElementById(
+  "module-picker",
+) as HTMLDialogElement;
+const expandSettingsDialog = document.getElementById(
+  "expand-settings",
+) as HTMLDialogElement;
+const expandSettingsButton = document.getElementById(
+  "expand-settings-button",
+) as HTMLButtonElement;
+const machineSettingsDialog = document.getElementById(
+  "machine-settings",
+) as HTMLDialogElement;
+const machineSettingsButton = document.getElementById(
+  "machine-settings-button",
+) as HTMLButtonElement;
+const mergeDuplicatesButton = document.getElementById(
+  "merge-duplicates-button",
+) as HTMLButtonElement;
+const autoMergeToggle = document.getElementById(
+  "auto-merge-toggle",
+) as HTMLInputElement;
+const beltTierSelect = document.getElementById(
+  "belt-tier-select",
+) as HTMLSelectElement;
+const miningResearchInput = document.getElementById(
+  "mining-research-input",
+) as HTMLInputElement;
+const busPanel = initBusPanel({
+  panel: document.getElementById("bus-panel") as HTMLElement,
+});
+const totalsPanel = initTotalsPanel({
+  panel: document.getElementById("totals-panel") as HTMLElement,
+});
+const noticePanel = initNoticePanel({
+  panel: document.getElementById("notice-panel") as HTMLElement,
+});
+const saveButton = document.getElementById("save-button") as HTMLButtonElement;
+const openButton = document.getElementById("open-button") as HTMLButtonElement;
+const openPlanButton = document.getElementById(
+  "open-plan-button",
+) as HTMLButtonElement;
+const openInput = document.getElementById("open-input") as HTMLInputElement;
+const importButton = document.getElementById(
+  "import-button",
+) as HTMLButtonElement;
+const importInput = document.getElementById("import-input") as HTMLInputElement;
+const projectsDialog = document.getElementById("projects") as HTMLDialogElement;
+const projectsButton = document.getElementById(
+  "projects-button",
+) as HTMLButtonElement;
+const selectionProjectsButton = document.getElementById(
+  "selection-projects-button",
+) as HTMLButtonElement;
+const undoButton = document.getElementById("undo-button") as HTMLButtonElement;
+const redoButton = document.getElementById("redo-button") as HTMLButtonElement;
 
 let globalGraph: RecipeGraph | undefined;
+/** Project the graph is saved to after every change */
+let currentProject: string | undefined;
+/** Whether the recipe picked in the selection dialog starts a new plan */
+let selectingNewPlan = true;
+/** Plans started on this page so far, tells their browser history entries apart */
+let session = 0;
+/** Actions in effect since the plan was started */
+let step = 0;
+const history = initHistory({ limit: HISTORY_LIMIT });
 
 const canvasPort = initCanvas(canvas);
-initSelectionDialog({
+const preferences = loadPreferences();
+const pickRecipe = initRecipePicker({
+  dialog: recipePickerDialog,
+  onRemember(item, recipe) {
+    preferences.recipes.set(itemKey(item), recipe.name);
+    savePreferences(preferences);
+  },
+});
+const pickModules = initModulePicker({ dialog: modulePickerDialog });
+const expandSettings = initExpandSettings({
+  dialog: expandSettingsDialog,
+  preferences,
+});
+const machinePreferences = loadMachinePreferences();
+const chooseMachine = (recipe: Recipe) =>
+  preferredMachine(machinePreferences, recipe);
+const machineSettings = initMachineSettings({
+  dialog: machineSettingsDialog,
+  preferences: machinePreferences,
+  reapply: () => dispatch({ type: "reapply-machines" }),
+});
+const selection = initSelectionDialog({
   dialog: selectionDialog,
-  onSelected(recipeName) {
-    const recipe = recipeMap.get(recipeName);
+  onSelected(name, rate) {
+    if (!selectingNewPlan) {
+      return dispatch({ type: "add-root", recipe: name, rate });
+    }
+
+    const recipe = recipeMap.get(name);
     if (!recipe) {
-      console.error("Selected recipe not found", recipeName);
+      console.error("Selected recipe not found", name);
       return;
     }
-    globalGraph = initialGraph(recipe);
     console.info("Selected recipe", recipe);
-    canvasPort.postMessage({ type: "update-graph", graph: globalGraph });
+    const res = initialGraph(recipe, rate, chooseMachine);
+    if (res.err) {
+      console.error("Failed to start plan", { recipe, rate, error: res.error });
+      return;
+    }
+    const graph = res.value;
+    startPlan(graph, createProject(recipeName(recipe), graph).id, "push");
+  },
+});
+const projectList = initProjectList({
+  dialog: projectsDialog,
+  currentProject: () => currentProject,
+  onOpen(id) {
+    const res = loadProject(id);
+    if (res.err) {
+      console.error("Failed to open project", { id, error: res.error });
+      return;
+    }
+    selection.close();
+    startPlan(res.value, id, "push");
+  },
+  onNew() {
+    selectingNewPlan = true;
+    selection.open({ title: "Select root recipe", dismissable: !!globalGraph });
   },
 });
 
+/**
+ * Replaces whatever plan there was, history included. The plan gets a browser
+ * history entry of its own when `link` is "push", otherwise it takes over the
+ * current one.
+ */
+function startPlan(
+  graph: RecipeGraph,
+  project: string,
+  link: "push" | "replace",
+) {
+  globalGraph = graph;
+  currentProject = project;
+  session += 1;
+  step = 0;
+  setLastProject(project);
+  history.clear();
+  updateHistoryButtons();
+  solveButton.disabled = false;
+  mergeDuplicatesButton.disabled = false;
+  saveButton.disabled = false;
+  importButton.disabled = false;
+  showGraph(graph);
+  updateLink(link);
+}
+
+addRootButton.addEventListener("click", () => {
+  selectingNewPlan = !globalGraph;
+  selection.open({ title: "Add product", dismissable: !!globalGraph });
+});
+
+projectsButton.addEventListener("click", () => projectList.open());
+selectionProjectsButton.addEventListener("click", () => projectList.open());
+
+solveButton.addEventListener("click", () => {
+  dispatch({ type: "solve", objective: objectiveSelect.value as Objective });
+});
+
+machineSettingsButton.addEventListener("click", () => {
+  machineSettings.open();
+});
+
+expandSettingsButton.addEventListener("click", () => {
+  expandSettings.open();
+});
+
+mergeDuplicatesButton.addEventListener("click", () => {
+  dispatch({ type: "merge-duplicates" });
+});
+
+const beltTier = loadBeltTier();
+beltTierSelect.value = beltTier;
+canvasPort.postMessage({ type: "set-belt-tier", tier: beltTier });
+beltTierSelect.addEventListener("change", () => {
+  const tier = beltTierSelect.value;
+  if (!isBeltTier(tier)) return;
+  saveBeltTier(tier);
+  canvasPort.postMessage({ type: "set-belt-tier", tier });
+});
+
+miningResearchInput.addEventListener("change", () => {
+  const level = miningResearchInput.valueAsNumber;
+  if (!Number.isInteger(level) || level < 0) {
+    miningResearchInput.value = String(globalGraph?.miningResearch ?? 0);
+    return;
+  }
+  if (level === globalGraph?.miningResearch) return;
+  dispatch({ type: "set-mining-research", level });
+});
+
+saveButton.addEventListener("click", () => {
+  if (!globalGraph) return;
+  const project = listProjects().find(({ id }) => id === currentProject);
+  downloadPlan(globalGraph, `${project?.name ?? "plan"}.json`);
+});
+
+openButton.addEventListener("click", () => openInput.click());
+openPlanButton.addEventListener("click", () => openInput.click());
+
+openInput.addEventListener("change", async () => {
+  const file = openInput.files?.[0];
+  // Picking the same file again should still fire a change
+  openInput.value = "";
+  if (!file) return;
+
+  const res = await readPlanFile(file);
+  if (res.err) {
+    console.error("Failed to open plan", { file: file.name, error: res.error });
+    return;
+  }
+  console.info("Opened plan", file.name);
+  selection.close();
+  const name = file.name.replace(/\.json$/i, "");
+  startPlan(res.value, createProject(name, res.value).id, "push");
+});
+
+importButton.addEventListener("click", () => importInput.click());
+
+importInput.addEventListener("change", async () => {
+  const file = importInput.files?.[0];
+  importInput.value = "";
+  if (!file) return;
+
+  const res = await readPlanFile(file);
+  if (res.err) {
+    console.error("Failed to import plan", {
+      file: file.name,
+      error: res.error,
+    });
+    return;
+  }
+  console.info("Imported plan", file.name);
+  dispatch({ type: "import", graph: res.value });
+});
+
+undoButton.addEventListener("click", stepBack);
+redoButton.addEventListener("click", stepForward);
+
+document.addEventListener("keydown", (event) => {
+  if (!(event.ctrlKey || event.metaKey) || isEditable(event.target)) return;
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    stepBack();
+  } else if ((key === "z" && event.shiftKey) || key === "y") {
+    event.preventDefault();
+    stepForward();
+  }
+});
+
+window.addEventListener("popstate", (event) => {
+  const state = event.state as LinkState | null;
+  if (state?.session === session && travel(state.step - step)) return;
+  // Entries of earlier plans, or links pasted into the address bar
+  openLinkedPlan(state?.project).catch((error) =>
+    console.error("Failed to open linked plan", error),
+  );
+});
+
 canvasPort.addEventListener("message", (event) => {
   console.info("Received message from canvas", event.data);
+  dispatch(event.data);
+});
+
+function dispatch(action: Action) {
   if (!globalGraph) {
     console.error("Graph not initialized");
     return;
   }
 
-  switch (event.data.type) {
+  switch (action.type) {
     case "expand":
-      return handle(expand, globalGraph, event.data.node);
+      if (action.recipe === undefined) {
+        return expandWithPicker(globalGraph, action.node);
+      }
+      return handle(action, expand, globalGraph, action.node, action.recipe);
+    case "expand-all":
+      return handle(action, expandBelow, globalGraph, action.node);
     case "collapse":
-      return handle(collapse, globalGraph, event.data.node);
+      return handle(action, collapse, globalGraph, action.node);
     case "merge":
-      return handle(merge, globalGraph, event.data.node, event.data.with);
+      return handle(action, merge, globalGraph, action.node, action.with);
+    case "unmerge":
+      return handle(action, unmerge, globalGraph, action.node);
+    case "merge-duplicates":
+      return handle(action, mergeAll, globalGraph);
+    case "set-supplied":
+      return handle(action, supply, globalGraph, action.item, action.supplied);
+    case "set-rate":
+      return handle(action, setRate, globalGraph, action.node, action.rate);
+    case "set-modules":
+      if (action.modules === undefined) {
+        return editModules(globalGraph, action.node);
+      }
+      return handle(
+        action,
+        setNodeModules,
+        globalGraph,
+        action.node,
+        action.modules,
+      );
+    case "set-machine":
+      return handle(
+        action,
+        setNodeMachine,
+        globalGraph,
+        action.node,
+        action.machine,
+      );
+    case "reapply-machines":
+      return handle(action, reapply, globalGraph);
+    case "set-extractor":
+      return handle(
+        action,
+        extract,
+        globalGraph,
+        action.node,
+        action.extractor,
+      );
+    case "set-mining-research":
+      return handle(action, setResearch, globalGraph, action.level);
+    case "add-root":
+      return handle(action, addRoot, globalGraph, action.recipe, action.rate);
+    case "move":
+      return handle(action, move, globalGraph, action.node, action.position);
+    case "solve":
+      return handle(action, solve, globalGraph, action.objective);
+    case "import":
+      return handle(action, importPlan, globalGraph, action.graph);
   }
-});
+}
 
 function handle<
-  Fn extends (graph: RecipeGraph, ...args: any[]) => Result<void, unknown>,
+  Fn extends (
+    graph: RecipeGraph,
+    ...args: any[]
+  ) => Result<RecipeGraph, unknown>,
 >(
+  action: Action,
   fn: Fn,
   graph: RecipeGraph,
   ...args: Fn extends (
     graph: RecipeGraph,
     ...args: infer Args
-  ) => Result<void, unknown>
+  ) => Result<RecipeGraph, unknown>
     ? Args
     : never
 ) {
   try {
-    const backupGraph = structuredClone(graph);
     const res = fn(graph, ...args);
     if (res.err) {
       console.error("Failed to handle event", {
@@ -83,33 +467,254 @@ function handle<
         ) {
           console.error(
             "Encountered graph inconsistency. " +
-              "Operation may have left graph in an even worse state. " +
-              "Restoring backup graph.",
+              "Keeping the graph as it was before the action.",
             cause,
           );
-          globalGraph = backupGraph;
-          // canvasPort.postMessage({ type: "update-graph", graph });
           break;
         }
       }
+      return;
     }
+
+    globalGraph = res.value;
+    const patch = diffGraphs(graph, res.value, action);
+    if (patch) {
+      history.record(patch);
+      step += 1;
+      updateLink("push");
+      autosave();
+    }
+    updateHistoryButtons();
   } catch (error) {
     console.error("Failed to handle event", { name: fn.name, error, graph });
   }
 }
 
-function expand(graph: RecipeGraph, nodeID: NodeID) {
-  const res = expandNode(graph, nodeID).context({ node: nodeID });
-  if (res.err) return res;
+/** Asks which recipe to use when the item is produced by several of them */
+async function expandWithPicker(graph: RecipeGraph, nodeID: NodeID) {
+  const node = graph.nodes.get(nodeID);
+  if (node?.type !== "terminal" || node.producedByRecipes.length <= 1) {
+    return handle({ type: "expand", node: nodeID }, expand, graph, nodeID);
+  }
+
+  const recipe = await pickRecipe(node.item, node.producedByRecipes);
+  if (!recipe) return;
+  dispatch({ type: "expand", node: nodeID, recipe: recipe.name });
+}
+
+async function editModules(graph: RecipeGraph, nodeID: NodeID) {
+  const node = graph.nodes.get(nodeID);
+  if (!node || isLeaf(node)) {
+    console.error("Node has no machines to put modules in", nodeID);
+    return;
+  }
+
+  const slots = moduleSlots(node.machine);
+  const modules = await pickModules(
+    recipeName(node.recipe),
+    slots,
+    allModules.filter((module) => allowsModule(node.recipe, module)),
+    node.modules,
+  );
+  if (!modules) return;
+  dispatch({ type: "set-modules", node: nodeID, modules });
+}
+
+/**
+ * Every action gets a browser history entry, so undo and redo go through the
+ * browser's back and forward. That way the buttons and the browser agree.
+ */
+function stepBack() {
+  if (history.nextUndo) window.history.back();
+}
+
+function stepForward() {
+  if (history.nextRedo) window.history.forward();
+}
+
+/** Undoes or redoes that many actions, false if history doesn't go as far */
+function travel(steps: number) {
+  for (; steps < 0; steps++) if (!undo()) return false;
+  for (; steps > 0; steps--) if (!redo()) return false;
+  return true;
+}
+
+function undo() {
+  if (!globalGraph) return false;
+  const undone = history.undo(globalGraph);
+  if (!undone) return false;
+  console.info("Undid action", undone.action);
+  globalGraph = undone.graph;
+  step -= 1;
+  showGraph(globalGraph);
+  autosave();
+  updateHistoryButtons();
+  return true;
+}
+
+function redo() {
+  if (!globalGraph) return false;
+  const redone = history.redo(globalGraph);
+  if (!redone) return false;
+  console.info("Redid action", redone.action);
+  globalGraph = redone.graph;
+  step += 1;
+  showGraph(globalGraph);
+  autosave();
+  updateHistoryButtons();
+  return true;
+}
+
+const actionLabels: Record<Action["type"], string> = {
+  expand: "expand",
+  "expand-all": "expand all",
+  collapse: "collapse",
+  merge: "merge",
+  unmerge: "split",
+  "merge-duplicates": "merge duplicates",
+  "set-rate": "rate change",
+  "set-modules": "module change",
+  "set-machine": "machine change",
+  "reapply-machines": "machine preferences",
+  "set-extractor": "extractor change",
+  "set-mining-research": "research change",
+  "set-supplied": "bus change",
+  "add-root": "new product",
+  move: "move",
+  solve: "solve",
+  import: "import",
+};
+
+function updateHistoryButtons() {
+  const nextUndo = history.nextUndo;
+  const nextRedo = history.nextRedo;
+  undoButton.disabled = !nextUndo;
+  redoButton.disabled = !nextRedo;
+  undoButton.title = nextUndo ? `Undo ${actionLabels[nextUndo.type]}` : "Undo";
+  redoButton.title = nextRedo ? `Redo ${actionLabels[nextRedo.type]}` : "Redo";
+}
+
+function isEditable(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+/** Browser history entry of a plan state */
+type LinkState = { project: string; session: number; step: number };
+
+/** Puts the current plan into the URL, in a new browser history entry or not */
+function updateLink(mode: "push" | "replace") {
+  if (!globalGraph || !currentProject) return;
+  const state: LinkState = { project: currentProject, session, step };
+  if (mode === "push") window.history.pushState(state, "");
+  else window.history.replaceState(state, "");
+
+  planLinkHash(globalGraph)
+    .then((hash) => {
+      // Compressing takes a while, the user may have moved on by then
+      const current = window.history.state as LinkState | null;
+      if (current?.session !== state.session || current.step !== state.step)
+        return;
+      window.history.replaceState(state, "", hash);
+    })
+    .catch((error) => console.warn("Failed to update plan link", error));
+}
+
+/**
+ * Opens the plan in the URL, if there is one. It goes into `project` when
+ * that still exists, e.g. on reload, and into a new project otherwise.
+ */
+async function openLinkedPlan(project: string | undefined) {
+  if (!isPlanLinkHash(location.hash)) return false;
+  const res = await readPlanLink(location.hash);
+  if (res.err) {
+    console.error("Failed to open linked plan", res.error);
+    return false;
+  }
+
+  selection.close();
+  const exists = listProjects().some(({ id }) => id === project);
+  const id =
+    project !== undefined && exists
+      ? project
+      : createProject(planName(res.value), res.value).id;
+  startPlan(res.value, id, "replace");
+  return true;
+}
+
+function planName(graph: RecipeGraph) {
+  for (const node of graph.nodes.values()) {
+    if (node.type === "root") return recipeName(node.recipe);
+  }
+  return "Shared plan";
+}
+
+function autosave() {
+  if (globalGraph && currentProject) saveProject(currentProject, globalGraph);
+}
+
+function showGraph(graph: RecipeGraph) {
   canvasPort.postMessage({ type: "update-graph", graph });
-  return Result.void;
+  busPanel.update(graph);
+  totalsPanel.update(graph);
+  miningResearchInput.value = String(graph.miningResearch);
+}
+
+function expand(graph: RecipeGraph, nodeID: NodeID, recipe?: string) {
+  const res = expandNode(graph, nodeID, recipe, chooseMachine).context({
+    node: nodeID,
+  });
+  if (res.err) return res;
+  const expanded = autoMergeToggle.checked
+    ? reportMerges(mergeDuplicates(res.value))
+    : res.value;
+  showGraph(expanded);
+  return Result.ok(expanded);
+}
+
+function expandBelow(graph: RecipeGraph, node: NodeID) {
+  const res = expandAll(graph, node, {
+    stopAt: (item) => isStopItem(preferences, item),
+    preferredRecipe: (item) => preferredRecipe(preferences, item),
+    chooseMachine,
+  }).context({ node });
+  if (res.err) return res;
+  console.info(`Expanded ${res.value.expanded} nodes`);
+  noticePanel.set("undecided", {
+    title: "Made by several recipes",
+    rows: res.value.undecided.map((item) => ({
+      item,
+      label: t(item.name) ?? item.name,
+      detail: "no preferred recipe",
+      action: { label: "Pick", run: () => pickRecipeFor(item) },
+    })),
+  });
+  const expanded = autoMergeToggle.checked
+    ? reportMerges(mergeDuplicates(res.value.graph))
+    : res.value.graph;
+  showGraph(expanded);
+  return Result.ok(expanded);
+}
+
+/** Opens the recipe picker for a terminal node of the item, if one is left */
+function pickRecipeFor(item: Item) {
+  if (!globalGraph) return;
+  for (const node of globalGraph.nodes.values()) {
+    if (node.type === "terminal" && itemEq(node.item, item)) {
+      return dispatch({ type: "expand", node: node.id });
+    }
+  }
 }
 
 function collapse(graph: RecipeGraph, node: NodeID) {
   const res = collapseNode(graph, node).context({ node });
   if (res.err) return res;
-  canvasPort.postMessage({ type: "update-graph", graph });
-  return Result.void;
+  showGraph(res.value);
+  return res;
 }
 
 function merge(graph: RecipeGraph, node: NodeID, withNode: NodeID) {
@@ -118,11 +723,189 @@ function merge(graph: RecipeGraph, node: NodeID, withNode: NodeID) {
     with: withNode,
   });
   if (res.err) return res;
-  canvasPort.postMessage({ type: "update-graph", graph });
-  return Result.void;
+  showGraph(res.value);
+  return res;
+}
+
+function unmerge(graph: RecipeGraph, node: NodeID) {
+  const res = unmergeNode(graph, node).context({ node });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function mergeAll(graph: RecipeGraph) {
+  const merged = reportMerges(mergeDuplicates(graph));
+  showGraph(merged);
+  return Result.ok(merged);
+}
+
+/** Shows which duplicates stayed apart and hands back the merged graph */
+function reportMerges(report: MergeReport) {
+  console.info(`Merged ${report.merged} duplicate nodes`);
+  noticePanel.set("merges", {
+    title: "Duplicates left unmerged",
+    rows: report.failed.map((failed) => {
+      const node = report.graph.nodes.get(failed.node);
+      const item = node && (isLeaf(node) ? node.item : nodeProduct(node));
+      return {
+        item,
+        label: item ? t(item.name) ?? item.name : `Node ${failed.node}`,
+        detail: mergeFailureReason(failed),
+      };
+    }),
+  });
+  return report.graph;
 }
 
-// Markup includes dialog element already shown, we have to reopen it
-// so it becomes modal, and also draws ::backdrop pseudo-element
-selectionDialog.close();
-selectionDialog.showModal();
+function mergeFailureReason({ error }: FailedMerge) {
+  if (typeof error === "string") return "different items";
+  switch (error.kind) {
+    case "incompatible-recipes":
+      return "different recipes";
+    case "merging-with-downstream":
+    case "merging-downstream":
+      return "one feeds the other";
+    case "extracted-resource":
+      return "extracted";
+    case "mismatched-inputs":
+      return "different inputs";
+    default:
+      return "cannot merge";
+  }
+}
+
+function addRoot(graph: RecipeGraph, recipeName: string, rate: number) {
+  const recipe = recipeMap.get(recipeName);
+  if (!recipe) return Result.err({ kind: "recipe-not-found", recipeName });
+  const res = addRootNode(graph, recipe, rate, chooseMachine).context({
+    recipeName,
+    rate,
+  });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+/** Replaces the whole graph with the optimal plan for its roots */
+function solve(graph: RecipeGraph, objective: Objective) {
+  const targets = [];
+  for (const node of graph.nodes.values()) {
+    if (node.type !== "root") continue;
+    targets.push({ recipe: node.recipe, rate: node.desiredProduction });
+  }
+
+  const plan = solvePlan(
+    targets,
+    objective,
+    graph.suppliedItems,
+    chooseMachine,
+    preferences.disabledRecipes,
+  ).context({ objective });
+  if (plan.err) return plan;
+  const solved = graphFromPlan(plan.value, chooseMachine).context({
+    plan: plan.value,
+  });
+  if (solved.err) return solved;
+
+  const next = {
+    ...solved.value,
+    suppliedItems: graph.suppliedItems,
+    miningResearch: graph.miningResearch,
+  };
+  showGraph(next);
+  return Result.ok(next);
+}
+
+/** Adds the products of another plan, along with their nodes, to the graph */
+function importPlan(graph: RecipeGraph, other: RecipeGraph) {
+  const res = importGraph(graph, other).context({ other });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+/** Positions are already up to date on the canvas, no need to redraw */
+function move(graph: RecipeGraph, node: NodeID, position: Position) {
+  return moveNode(graph, node, position).context({ node, position });
+}
+
+function supply(graph: RecipeGraph, item: Item, supplied: boolean) {
+  const res = setSupplied(graph, item, supplied).context({ item, supplied });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function setRate(graph: RecipeGraph, node: NodeID, rate: number) {
+  const res = setDesiredProduction(graph, node, rate).context({ node, rate });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function setNodeModules(
+  graph: RecipeGraph,
+  node: NodeID,
+  modules: ModuleSetup,
+) {
+  const res = setModules(graph, node, modules).context({ node, modules });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function setNodeMachine(graph: RecipeGraph, node: NodeID, machine: Machine) {
+  const res = setMachine(graph, node, machine).context({ node, machine });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+/** Moves every node to the machine preferred for its recipe's category */
+function reapply(graph: RecipeGraph) {
+  const res = reapplyMachines(graph, chooseMachine);
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function extract(graph: RecipeGraph, node: NodeID, extractor?: Extractor) {
+  const res = setExtractor(graph, node, extractor).context({ node, extractor });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+function setResearch(graph: RecipeGraph, level: number) {
+  const res = setMiningResearch(graph, level).context({ level });
+  if (res.err) return res;
+  showGraph(res.value);
+  return res;
+}
+
+/** Picks up where the last session left off, if there is anything to pick up */
+function restoreLastProject() {
+  const id = lastProject();
+  if (id === undefined) return false;
+  const res = loadProject(id);
+  if (res.err) {
+    console.error("Failed to restore last project", { id, error: res.error });
+    return false;
+  }
+  selection.close();
+  startPlan(res.value, id, "replace");
+  return true;
+}
+
+// Reloading keeps the history entry, and with it the project it belongs to
+openLinkedPlan((window.history.state as LinkState | null)?.project)
+  .catch((error) => {
+    // Whatever is wrong with the link, the last project is still there
+    console.error("Failed to open linked plan", error);
+    return false;
+  })
+  .then((opened) => {
+    if (opened || restoreLastProject()) return;
+    selection.open({ title: "Select root recipe", dismissable: false });
+  });
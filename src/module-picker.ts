@@ -0,0 +1,99 @@
+import { Module, ModuleSetup, isModule } from "./modules"
+import { t } from "./recipe"
+
+export type ModulePickerProps = {
+  dialog: HTMLDialogElement
+}
+
+/**
+ * Offers the `allowed` modules for every slot. Resolves with `undefined` when
+ * the picker is dismissed.
+ */
+export type PickModules = (
+  name: string,
+  slots: number,
+  allowed: readonly Module[],
+  current?: ModuleSetup,
+) => Promise<ModuleSetup | undefined>
+
+export function initModulePicker({ dialog }: ModulePickerProps): PickModules {
+  const form = dialog.querySelector(".module-form") as HTMLFormElement
+  const title = dialog.querySelector(".dialog-title") as HTMLHeadingElement
+  const slotList = dialog.querySelector(".module-slots") as HTMLUListElement
+  const beaconsInput = dialog.querySelector(
+    ".module-beacons",
+  ) as HTMLInputElement
+  const cancelButton = dialog.querySelector(
+    ".module-cancel",
+  ) as HTMLButtonElement
+
+  let pending: ((setup: ModuleSetup | undefined) => void) | undefined
+
+  function settle(setup?: ModuleSetup) {
+    const resolve = pending
+    pending = undefined
+    if (dialog.open) dialog.close()
+    resolve?.(setup)
+  }
+
+  dialog.addEventListener("cancel", ev => {
+    ev.preventDefault()
+    settle()
+  })
+
+  cancelButton.addEventListener("click", () => settle())
+
+  form.addEventListener("submit", ev => {
+    ev.preventDefault()
+    const data = new FormData(form)
+    const modules = data.getAll("module").filter(isModule)
+    // Disabled for machines without slots, which leaves it out of the data
+    const beacons = Number(data.get("beacons") ?? 0)
+    if (!Number.isInteger(beacons) || beacons < 0) {
+      beaconsInput.reportValidity()
+      return
+    }
+    settle({ modules, beacons })
+  })
+
+  return function pickModules(name, slots, allowed, current) {
+    settle()
+
+    title.textContent = `Modules for ${name}`
+    slotList.replaceChildren(
+      ...Array.from({ length: slots }, (_, i) =>
+        slotRow(i, allowed, current?.modules[i]),
+      ),
+    )
+    beaconsInput.value = String(current?.beacons ?? 0)
+    beaconsInput.disabled = slots === 0
+    dialog.showModal()
+
+    return new Promise(resolve => {
+      pending = resolve
+    })
+  }
+}
+
+function slotRow(index: number, allowed: readonly Module[], module?: Module) {
+  const row = document.createElement("li")
+  row.className = "settings-row"
+
+  const select = document.createElement("select")
+  select.name = "module"
+  select.className = "settings-input"
+  select.title = `Module in slot ${index + 1}`
+  select.append(
+    new Option("Empty", ""),
+    ...allowed.map(
+      option =>
+        new Option(t(option) ?? option, option, false, option === module),
+    ),
+  )
+
+  const label = document.createElement("span")
+  label.textContent = `Slot ${index + 1}`
+
+  row.append(label, select)
+  return row
+}
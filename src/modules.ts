@@ -0,0 +1,156 @@
+import checkMembership, { Item, Recipe } from "./recipe"
+
+const modules = [
+  "speed-module",
+  "speed-module-2",
+  "speed-module-3",
+  "productivity-module",
+  "productivity-module-2",
+  "productivity-module-3",
+  "effectivity-module",
+  "effectivity-module-2",
+  "effectivity-module-3",
+] as const
+/** Module, by the name of its item */
+export type Module = (typeof modules)[number]
+export const allModules: readonly Module[] = modules
+export const isModule = checkMembership(modules)
+
+/** Bonuses of a module, e.g. `speed: 0.5` makes the machine 50% faster */
+type ModuleEffect = { speed: number; productivity: number; consumption: number }
+
+const moduleEffects: Record<Module, ModuleEffect> = {
+  "speed-module": { speed: 0.2, productivity: 0, consumption: 0.5 },
+  "speed-module-2": { speed: 0.3, productivity: 0, consumption: 0.6 },
+  "speed-module-3": { speed: 0.5, productivity: 0, consumption: 0.7 },
+  "productivity-module": { speed: -0.05, productivity: 0.04, consumption: 0.4 },
+  "productivity-module-2": {
+    speed: -0.1,
+    productivity: 0.06,
+    consumption: 0.6,
+  },
+  "productivity-module-3": {
+    speed: -0.15,
+    productivity: 0.1,
+    consumption: 0.8,
+  },
+  "effectivity-module": { speed: 0, productivity: 0, consumption: -0.3 },
+  "effectivity-module-2": { speed: 0, productivity: 0, consumption: -0.4 },
+  "effectivity-module-3": { speed: 0, productivity: 0, consumption: -0.5 },
+}
+
+/** Module every beacon is filled with */
+export const BEACON_MODULE: Module = "speed-module-3"
+const BEACON_SLOTS = 2
+/** Part of the effect of its modules a beacon passes on */
+const BEACON_EFFECTIVITY = 0.5
+/** Neither speed nor consumption can be cut below 20% */
+const MIN_MULTIPLIER = 0.2
+
+/**
+ * Recipes that productivity modules can be used with, the game's limitation
+ * list of intermediate products
+ */
+const productivityRecipes: ReadonlySet<string> = new Set([
+  // Oil and chemistry
+  "basic-oil-processing",
+  "advanced-oil-processing",
+  "coal-liquefaction",
+  "heavy-oil-cracking",
+  "light-oil-cracking",
+  "solid-fuel-from-light-oil",
+  "solid-fuel-from-heavy-oil",
+  "solid-fuel-from-petroleum-gas",
+  "sulfuric-acid",
+  "lubricant",
+  "sulfur",
+  "plastic-bar",
+  // Smelting and intermediates
+  "iron-plate",
+  "copper-plate",
+  "steel-plate",
+  "stone-brick",
+  "iron-gear-wheel",
+  "iron-stick",
+  "copper-cable",
+  "electronic-circuit",
+  "advanced-circuit",
+  "processing-unit",
+  "engine-unit",
+  "electric-engine-unit",
+  "flying-robot-frame",
+  "battery",
+  "explosives",
+  "empty-barrel",
+  // Nuclear
+  "uranium-processing",
+  "kovarex-enrichment-process",
+  "nuclear-fuel-reprocessing",
+  "uranium-fuel-cell",
+  // Rocket
+  "low-density-structure",
+  "rocket-fuel",
+  "nuclear-fuel",
+  "rocket-control-unit",
+  "rocket-part",
+  // Science
+  "automation-science-pack",
+  "logistic-science-pack",
+  "military-science-pack",
+  "chemical-science-pack",
+  "production-science-pack",
+  "utility-science-pack",
+])
+
+/** Whether machines running the recipe may hold the module */
+export function allowsModule(recipe: Recipe, module: Module) {
+  return (
+    moduleEffects[module].productivity === 0 ||
+    productivityRecipes.has(recipe.name)
+  )
+}
+
+/**
+ * Modules of a node's machines, every machine of the node is set up the same.
+ * Productivity modules are only allowed for recipes of intermediate products,
+ * as in the game, see `allowsModule`.
+ */
+export type ModuleSetup = {
+  /** Modules in each machine, no more than it has slots for */
+  modules: Module[]
+  /** Beacons reaching each machine, each holding two `BEACON_MODULE`s */
+  beacons: number
+}
+
+/** Factors the setup applies to a machine's speed, output and power use */
+export type ModuleMultipliers = {
+  speed: number
+  productivity: number
+  consumption: number
+}
+
+export function moduleMultipliers(setup?: ModuleSetup): ModuleMultipliers {
+  const total: ModuleEffect = { speed: 0, productivity: 0, consumption: 0 }
+  const add = (effect: ModuleEffect, weight: number) => {
+    total.speed += effect.speed * weight
+    total.productivity += effect.productivity * weight
+    total.consumption += effect.consumption * weight
+  }
+  for (const module of setup?.modules ?? []) add(moduleEffects[module], 1)
+  add(
+    moduleEffects[BEACON_MODULE],
+    (setup?.beacons ?? 0) * BEACON_SLOTS * BEACON_EFFECTIVITY,
+  )
+
+  return {
+    speed: Math.max(MIN_MULTIPLIER, 1 + total.speed),
+    productivity: 1 + Math.max(0, total.productivity),
+    consumption: Math.max(MIN_MULTIPLIER, 1 + total.consumption),
+  }
+}
+
+export function moduleItem(module: Module): Item {
+  return { name: module, type: "item" }
+}
+
+export const BEACON_ITEM: Item = { name: "beacon", type: "item" }
@@ -0,0 +1,83 @@
+import { panelRow } from "./panel-row"
+import { Item } from "./recipe"
+
+export type NoticeRow = {
+  item?: Item
+  label: string
+  /** Why the row is listed, in place of the amount other panels show */
+  detail: string
+  /** Button at the end of the row that deals with what it lists */
+  action?: { label: string; run(): void }
+}
+
+export type Notice = {
+  title: string
+  rows: NoticeRow[]
+}
+
+export type NoticePanelProps = {
+  panel: HTMLElement
+}
+
+/**
+ * Lists what the last actions could not do, such as duplicates that merging
+ * left apart. Every kind of notice replaces the previous one of its kind, and
+ * the panel stays up until every notice is gone or it is dismissed.
+ */
+export function initNoticePanel({ panel }: NoticePanelProps) {
+  const sections = panel.querySelector(".notice-sections") as HTMLElement
+  const dismissButton = panel.querySelector(
+    ".notice-dismiss",
+  ) as HTMLButtonElement
+  const notices = new Map<string, Notice>()
+  let controller: AbortController | undefined
+
+  dismissButton.addEventListener("click", () => {
+    notices.clear()
+    render()
+  })
+
+  function render() {
+    controller?.abort()
+    const signal = (controller = new AbortController()).signal
+
+    panel.hidden = notices.size === 0
+    sections.replaceChildren(
+      ...Array.from(notices.values(), ({ title, rows }) => {
+        const section = document.createElement("section")
+        const heading = document.createElement("h3")
+        heading.className = "panel-subtitle"
+        heading.textContent = title
+        const list = document.createElement("ul")
+        list.className = "panel-list"
+        list.append(...rows.map(row => noticeRow(row, signal)))
+        section.append(heading, list)
+        return section
+      }),
+    )
+  }
+
+  return {
+    /** Shows the notice of the kind, or takes it down when there is none */
+    set(kind: string, notice: Notice | undefined) {
+      if (notice && notice.rows.length > 0) notices.set(kind, notice)
+      else notices.delete(kind)
+      render()
+    },
+  }
+}
+
+function noticeRow(
+  { item, label, detail, action }: NoticeRow,
+  signal: AbortSignal,
+) {
+  const row = panelRow(item, label, detail, signal)
+  if (!action) return row
+  const button = document.createElement("button")
+  button.type = "button"
+  button.className = "settings-button"
+  button.textContent = action.label
+  button.addEventListener("click", action.run, { signal })
+  row.append(button)
+  return row
+}
@@ -0,0 +1,39 @@
+import { iconForItem } from "./icon"
+import { Item } from "./recipe"
+
+/** Row of a side panel: an icon if there is one, a label and an amount */
+export function panelRow(
+  icon: Item | undefined,
+  label: string,
+  amount: string,
+  signal: AbortSignal,
+) {
+  const row = document.createElement("li")
+  row.className = "panel-row"
+
+  const name = document.createElement("span")
+  name.className = "panel-name"
+  name.textContent = label
+
+  const value = document.createElement("span")
+  value.className = "panel-amount"
+  value.textContent = amount
+
+  row.append(name, value)
+  if (!icon) return row
+
+  iconForItem(icon, signal)
+    .then(url => {
+      const img = new Image()
+      img.className = "panel-icon"
+      img.src = url
+      img.alt = ""
+      row.prepend(img)
+    })
+    .catch(err => {
+      if (err.name === "AbortError") return
+      console.error(err, icon)
+    })
+
+  return row
+}
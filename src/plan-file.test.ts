@@ -0,0 +1,163 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import {
+  NodeID,
+  RecipeGraph,
+  expandNode,
+  initialGraph,
+  moveNode,
+  setExtractor,
+  setMiningResearch,
+  setModules,
+  setSupplied,
+} from "./graph"
+import {
+  PLAN_FILE_FORMAT,
+  PlanFile,
+  parsePlan,
+  serializePlan,
+} from "./plan-file"
+import { Item, recipeMap } from "./recipe"
+import Result from "./result"
+
+const WATER: Item = { name: "water", type: "fluid" }
+
+function unwrap<T>(res: Result<T, unknown>): T {
+  if (res.err) throw res.error
+  return res.value
+}
+
+/** Plastic out of oil, with a bit of everything a plan file keeps */
+function samplePlan() {
+  let graph = unwrap(initialGraph(recipeMap.get("plastic-bar")!, 10))
+  const gas = nodeFor(graph, "petroleum-gas")
+  graph = unwrap(expandNode(graph, gas, "advanced-oil-processing"))
+  graph = unwrap(
+    setExtractor(graph, nodeFor(graph, "coal"), {
+      type: "electric-mining-drill",
+    }),
+  )
+  graph = unwrap(
+    setModules(graph, 0 as NodeID, { modules: ["speed-module"], beacons: 1 }),
+  )
+  graph = unwrap(moveNode(graph, gas, { x: 120, y: -40 }))
+  graph = unwrap(setSupplied(graph, WATER, true))
+  graph = unwrap(setMiningResearch(graph, 2))
+  return graph
+}
+
+function nodeFor(graph: RecipeGraph, name: string) {
+  for (const node of graph.nodes.values()) {
+    if (node.type !== "root" && node.item.name === name) return node.id
+  }
+  throw new Error(`No node for ${name}`)
+}
+
+/** The file as it comes back out of JSON */
+function saved(graph: RecipeGraph): PlanFile {
+  return JSON.parse(JSON.stringify(serializePlan(graph)))
+}
+
+describe("plan files", () => {
+  test("open to the plan they were saved from", () => {
+    const file = saved(samplePlan())
+    const opened = unwrap(parsePlan(file))
+
+    expect(saved(opened)).toEqual(file)
+    expect(opened.positions.get(nodeFor(opened, "petroleum-gas"))).toEqual({
+      x: 120,
+      y: -40,
+    })
+    expect(opened.miningResearch).toBe(2)
+    expect(opened.nodes.get(nodeFor(opened, "coal"))?.type).toBe("resource")
+  })
+
+  test("open from version 1, which had no modules or resources", () => {
+    const graph = unwrap(initialGraph(recipeMap.get("plastic-bar")!, 10))
+    const { miningResearch: _, ...file } = saved(graph)
+    const opened = unwrap(parsePlan({ ...file, version: 1 }))
+
+    expect(saved(opened)).toEqual(saved(graph))
+    expect(opened.miningResearch).toBe(0)
+  })
+
+  test("open from version 2, which had no mining research", () => {
+    const graph = unwrap(initialGraph(recipeMap.get("plastic-bar")!, 10))
+    const { miningResearch: _, ...file } = saved(graph)
+    const opened = unwrap(parsePlan({ ...file, version: 2 }))
+
+    expect(saved(opened)).toEqual(saved(graph))
+  })
+
+  test("are told apart from other files", () => {
+    expect(errorOf(null)).toBe("not-a-plan")
+    expect(errorOf({ nodes: [] })).toBe("not-a-plan")
+    expect(errorOf({ ...saved(samplePlan()), format: "other" })).toBe(
+      "not-a-plan",
+    )
+    expect(errorOf({ ...saved(samplePlan()), version: 99 })).toEqual({
+      kind: "unsupported-version",
+      version: 99,
+    })
+    expect(errorOf({ format: PLAN_FILE_FORMAT, version: 3 })).toBe("not-a-plan")
+  })
+
+  test("reject malformed nodes", () => {
+    const file = saved(samplePlan())
+    const withNode = (index: number, change: object) => ({
+      ...file,
+      nodes: file.nodes.map((node, i) =>
+        i === index ? { ...node, ...change } : node,
+      ),
+    })
+
+    expect(errorOf(withNode(0, { position: "x" }))).toEqual({
+      kind: "invalid-node",
+      index: 0,
+    })
+    expect(errorOf(withNode(0, { position: { x: 1 } }))).toEqual({
+      kind: "invalid-node",
+      index: 0,
+    })
+    expect(errorOf(withNode(0, { shares: "x" }))).toEqual({
+      kind: "invalid-node",
+      index: 0,
+    })
+    expect(errorOf(withNode(0, { rate: -1 }))).toEqual({
+      kind: "invalid-node",
+      index: 0,
+    })
+    expect(errorOf(withNode(0, { recipe: "perpetuum-mobile" }))).toEqual({
+      kind: "unknown-recipe",
+      recipe: "perpetuum-mobile",
+    })
+    expect(errorOf(withNode(0, { inputs: [99] }))).toEqual({
+      kind: "unknown-node",
+      node: 99,
+    })
+    expect(errorOf(withNode(1, { id: 0 }))).toEqual({
+      kind: "duplicate-node",
+      node: 0,
+    })
+  })
+
+  test("reject plans that do not hold together", () => {
+    const file = saved(samplePlan())
+    // Root takes in its own plastic, which none of its ingredients are
+    const looped = {
+      ...file,
+      nodes: file.nodes.map(node =>
+        node.type === "root"
+          ? { ...node, inputs: [...node.inputs, node.id] }
+          : node,
+      ),
+    }
+    expect(errorOf(looped)).toMatchObject({ kind: "invalid-graph" })
+  })
+})
+
+function errorOf(json: unknown) {
+  const res = parsePlan(json)
+  if (!res.err) throw new Error("Expected the plan to be rejected")
+  return res.error
+}
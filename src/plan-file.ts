@@ -0,0 +1,502 @@
+import {
+  GraphParts,
+  NodeID,
+  Position,
+  RecipeGraph,
+  RecipeNode,
+  SupplyShare,
+  restoreGraph,
+} from "./graph"
+import { Machine, machineItem, madeIn, moduleSlots } from "./machine"
+import { ModuleSetup, allowsModule, isModule } from "./modules"
+import {
+  Item,
+  Recipe,
+  itemFromKey,
+  itemKey,
+  recipeMap,
+  recipesForResult,
+} from "./recipe"
+import { Extractor, extractorsFor } from "./resource"
+import Result from "./result"
+import { GraphViolation, validateGraph } from "./validate"
+
+export const PLAN_FILE_FORMAT = "factorio-calc-plan"
+export const PLAN_FILE_VERSION = 3
+
+/**
+ * Plan as it is written to a `.json` file.
+ *
+ * Recipes are referred to by their name, items by their `itemKey`, such as
+ * `"item:iron-plate"` or `"fluid:water"`, and machines by the name of their
+ * item, such as `"assembling-machine-2"`. Node ids only link nodes within the
+ * file, the plan's nodes are numbered from 0 in file order when it is opened.
+ *
+ * Only what the rest follows from is kept: consumers of every node, depths
+ * and every rate but the roots' are worked out again on opening.
+ *
+ * Every change to the format bumps `PLAN_FILE_VERSION` and adds a migration
+ * from the previous version to `migrations`, so that older files keep opening.
+ */
+export type PlanFile = {
+  format: typeof PLAN_FILE_FORMAT
+  version: typeof PLAN_FILE_VERSION
+  nodes: SavedNode[]
+  /** Items that come from outside of the plan, e.g. from a main bus */
+  supplied: string[]
+  /** Levels of mining productivity research */
+  miningResearch: number
+}
+
+export type SavedNode =
+  | {
+      id: number
+      type: "root"
+      recipe: string
+      machine: string
+      /** Items per second of the recipe's main product */
+      rate: number
+      /** Nodes the node draws its ingredients from */
+      inputs: number[]
+      shares?: SavedShare[]
+      /** Modules by the names of their items, left out when there are none */
+      modules?: ModuleSetup
+      /** Set when the node was placed by hand */
+      position?: Position
+    }
+  | {
+      id: number
+      type: "intermediate"
+      recipe: string
+      /** Result of the recipe the node was expanded for */
+      item: string
+      machine: string
+      inputs: number[]
+      shares?: SavedShare[]
+      modules?: ModuleSetup
+      position?: Position
+    }
+  | {
+      id: number
+      type: "terminal"
+      item: string
+      position?: Position
+    }
+  | {
+      id: number
+      type: "resource"
+      item: string
+      /** Pumpjacks keep the yield of their field along with them */
+      extractor: Extractor
+      position?: Position
+    }
+
+/** Part of an ingredient the node takes from one of its inputs */
+export type SavedShare = { item: string; supplier: number; share: number }
+
+export function serializePlan(graph: RecipeGraph): PlanFile {
+  const nodes = Array.from(graph.nodes.values(), (node): SavedNode => {
+    const position = graph.positions.get(node.id)
+    if (node.type === "terminal") {
+      return {
+        id: node.id,
+        type: "terminal",
+        item: itemKey(node.item),
+        position,
+      }
+    }
+    if (node.type === "resource") {
+      return {
+        id: node.id,
+        type: "resource",
+        item: itemKey(node.item),
+        extractor: node.extractor,
+        position,
+      }
+    }
+
+    const saved = {
+      id: node.id,
+      recipe: node.recipe.name,
+      machine: machineItem(node.machine).name,
+      inputs: graph.downEdges.get(node.id) ?? [],
+      shares: graph.supplyShares.get(node.id)?.map(share => ({
+        item: itemKey(share.item),
+        supplier: share.supplier,
+        share: share.share,
+      })),
+      modules: node.modules,
+      position,
+    }
+    return node.type === "root"
+      ? { ...saved, type: "root", rate: node.desiredProduction }
+      : { ...saved, type: "intermediate", item: itemKey(node.item) }
+  })
+
+  return {
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    nodes,
+    supplied: Array.from(graph.suppliedItems),
+    miningResearch: graph.miningResearch,
+  }
+}
+
+export type PlanFileError =
+  | "not-a-plan"
+  | { kind: "unsupported-version"; version: number }
+  | { kind: "invalid-node"; index: number }
+  | { kind: "duplicate-node"; node: number }
+  | { kind: "unknown-node"; node: number }
+  | { kind: "unknown-recipe"; recipe: string }
+  | { kind: "unknown-item"; item: string }
+  | { kind: "unknown-machine"; recipe: string; machine: string }
+  | { kind: "invalid-modules"; index: number }
+  | { kind: "invalid-extractor"; index: number }
+  | { kind: "invalid-graph"; violations: GraphViolation[] }
+  | { kind: "unsolvable-plan"; error: unknown }
+
+/**
+ * Builds the graph of a plan read from a file, migrating it from whichever
+ * version it was saved with.
+ */
+export function parsePlan(json: unknown): Result<RecipeGraph, PlanFileError> {
+  const migrated = migrate(json)
+  if (migrated.err) return migrated
+  const file = migrated.value
+
+  const ids = new Map<number, NodeID>()
+  for (const [index, saved] of file.nodes.entries()) {
+    if (typeof saved !== "object" || !saved || typeof saved.id !== "number")
+      return Result.err({ kind: "invalid-node", index })
+    if (ids.has(saved.id))
+      return Result.err({ kind: "duplicate-node", node: saved.id })
+    ids.set(saved.id, ids.size as NodeID)
+  }
+  function nodeID(id: number): Result<NodeID, PlanFileError> {
+    const nodeID = ids.get(id)
+    if (nodeID === undefined)
+      return Result.err({ kind: "unknown-node", node: id })
+    return Result.ok(nodeID)
+  }
+
+  const parts: GraphParts = {
+    nodes: new Map(),
+    downEdges: new Map(),
+    supplyShares: new Map(),
+    positions: new Map(),
+    suppliedItems: new Set(),
+    miningResearch: file.miningResearch,
+  }
+  for (const [index, saved] of file.nodes.entries()) {
+    const id = ids.get(saved.id)!
+    const node = parseNode(saved, id, index)
+    if (node.err) return node
+    parts.nodes.set(id, node.value)
+
+    if (saved.position !== undefined) {
+      if (!isPosition(saved.position))
+        return Result.err({ kind: "invalid-node", index })
+      parts.positions.set(id, { x: saved.position.x, y: saved.position.y })
+    }
+    if (saved.type === "terminal" || saved.type === "resource") continue
+
+    const inputs = Result.collectArray(saved.inputs.map(nodeID))
+    if (inputs.err) return inputs
+    parts.downEdges.set(id, inputs.value)
+
+    if (saved.shares === undefined) continue
+    if (!Array.isArray(saved.shares))
+      return Result.err({ kind: "invalid-node", index })
+    const shares: SupplyShare[] = []
+    for (const share of saved.shares as unknown[]) {
+      if (!isSavedShare(share))
+        return Result.err({ kind: "invalid-node", index })
+      const item = parseItem(share.item)
+      if (item.err) return item
+      const supplier = nodeID(share.supplier)
+      if (supplier.err) return supplier
+      shares.push({
+        item: item.value,
+        supplier: supplier.value,
+        share: share.share,
+      })
+    }
+    parts.supplyShares.set(id, shares)
+  }
+  for (const key of file.supplied) {
+    const item = parseItem(key)
+    if (item.err) return item
+    parts.suppliedItems.add(itemKey(item.value))
+  }
+
+  const graph = restoreGraph(parts)
+  if (graph.err)
+    return Result.err({ kind: "unsolvable-plan", error: graph.error })
+  const violations = validateGraph(graph.value)
+  if (violations.length > 0)
+    return Result.err({ kind: "invalid-graph", violations })
+  return graph
+}
+
+function parseNode(
+  saved: SavedNode,
+  id: NodeID,
+  index: number,
+): Result<RecipeNode, PlanFileError> {
+  if (saved.type === "terminal") {
+    const item = parseItem(saved.item)
+    if (item.err) return item
+    return Result.ok({
+      id,
+      type: "terminal",
+      item: item.value,
+      requiredAmount: 0,
+      producedByRecipes: recipesForResult(item.value),
+    })
+  }
+  if (saved.type === "resource") {
+    const item = parseItem(saved.item)
+    if (item.err) return item
+    const extractor = parseExtractor(saved.extractor, item.value, index)
+    if (extractor.err) return extractor
+    return Result.ok({
+      id,
+      type: "resource",
+      item: item.value,
+      requiredAmount: 0,
+      extractor: extractor.value,
+    })
+  }
+  if (
+    (saved.type !== "root" && saved.type !== "intermediate") ||
+    !Array.isArray(saved.inputs)
+  )
+    return Result.err({ kind: "invalid-node", index })
+
+  const recipe = recipeMap.get(saved.recipe)
+  if (!recipe)
+    return Result.err({ kind: "unknown-recipe", recipe: saved.recipe })
+  const machine = parseMachine(recipe, saved.machine)
+  if (machine.err) return machine
+  const modules = parseModules(saved.modules, recipe, machine.value, index)
+  if (modules.err) return modules
+
+  if (saved.type === "root") {
+    if (!Number.isFinite(saved.rate) || saved.rate < 0)
+      return Result.err({ kind: "invalid-node", index })
+    return Result.ok({
+      id,
+      type: "root",
+      recipe,
+      desiredProduction: saved.rate,
+      machine: machine.value,
+      ...modules.value,
+      surplus: [],
+    })
+  }
+
+  const item = parseItem(saved.item)
+  if (item.err) return item
+  return Result.ok({
+    id,
+    type: "intermediate",
+    recipe,
+    item: item.value,
+    machine: machine.value,
+    ...modules.value,
+    desiredProduction: 0,
+    surplus: [],
+  })
+}
+
+function parseItem(key: string): Result<Item, PlanFileError> {
+  const item = typeof key === "string" ? itemFromKey(key) : undefined
+  if (!item) return Result.err({ kind: "unknown-item", item: String(key) })
+  return Result.ok(item)
+}
+
+function parseMachine(
+  recipe: Recipe,
+  name: string,
+): Result<Machine, PlanFileError> {
+  const machine = madeIn(recipe).find(
+    machine => machineItem(machine).name === name,
+  )
+  if (!machine)
+    return Result.err({
+      kind: "unknown-machine",
+      recipe: recipe.name,
+      machine: name,
+    })
+  return Result.ok(machine)
+}
+
+function parseModules(
+  saved: unknown,
+  recipe: Recipe,
+  machine: Machine,
+  index: number,
+): Result<{ modules?: ModuleSetup }, PlanFileError> {
+  if (saved === undefined) return Result.ok({})
+  if (
+    typeof saved !== "object" ||
+    !saved ||
+    !("modules" in saved) ||
+    !Array.isArray(saved.modules) ||
+    !saved.modules.every(
+      module => isModule(module) && allowsModule(recipe, module),
+    ) ||
+    saved.modules.length > moduleSlots(machine) ||
+    !("beacons" in saved) ||
+    typeof saved.beacons !== "number" ||
+    !Number.isInteger(saved.beacons) ||
+    saved.beacons < 0
+  )
+    return Result.err({ kind: "invalid-modules", index })
+  return Result.ok({
+    modules: { modules: [...saved.modules], beacons: saved.beacons },
+  })
+}
+
+function parseExtractor(
+  saved: unknown,
+  item: Item,
+  index: number,
+): Result<Extractor, PlanFileError> {
+  const extractor = extractorsFor(item)?.find(
+    extractor =>
+      typeof saved === "object" &&
+      !!saved &&
+      "type" in saved &&
+      saved.type === extractor.type,
+  )
+  if (!extractor) return Result.err({ kind: "invalid-extractor", index })
+  if (extractor.type !== "pumpjack") return Result.ok(extractor)
+
+  const fieldYield = (saved as { yield?: unknown }).yield
+  if (
+    typeof fieldYield !== "number" ||
+    !Number.isFinite(fieldYield) ||
+    fieldYield <= 0
+  )
+    return Result.err({ kind: "invalid-extractor", index })
+  return Result.ok({ type: "pumpjack", yield: fieldYield })
+}
+
+function isPosition(value: unknown): value is Position {
+  return (
+    typeof value === "object" &&
+    !!value &&
+    "x" in value &&
+    "y" in value &&
+    Number.isFinite(value.x) &&
+    Number.isFinite(value.y)
+  )
+}
+
+function isSavedShare(value: unknown): value is SavedShare {
+  return (
+    typeof value === "object" &&
+    !!value &&
+    "item" in value &&
+    typeof value.item === "string" &&
+    itemFromKey(value.item) !== undefined &&
+    "supplier" in value &&
+    typeof value.supplier === "number" &&
+    "share" in value &&
+    typeof value.share === "number" &&
+    Number.isFinite(value.share) &&
+    value.share >= 0
+  )
+}
+
+/**
+ * Upgrades a file of the version before it to the next one. Files are checked
+ * as a whole only once they are up to date.
+ */
+const migrations: Record<number, (file: unknown) => unknown> = {
+  // Version 2 added modules, files before it have none
+  1: file => {
+    if (typeof file !== "object" || !file) return file
+    return { ...file, version: 2 }
+  },
+  // Version 3 added resource nodes and mining productivity research
+  2: file => {
+    if (typeof file !== "object" || !file) return file
+    return { ...file, version: 3, miningResearch: 0 }
+  },
+}
+
+function migrate(json: unknown): Result<PlanFile, PlanFileError> {
+  let file = json
+  let version = fileVersion(file)
+  while (version !== undefined && version < PLAN_FILE_VERSION) {
+    const migration = migrations[version]
+    if (!migration) return Result.err({ kind: "unsupported-version", version })
+    file = migration(file)
+    version = fileVersion(file)
+  }
+  if (version === undefined) return Result.err("not-a-plan")
+  if (version !== PLAN_FILE_VERSION)
+    return Result.err({ kind: "unsupported-version", version })
+  if (
+    typeof file !== "object" ||
+    !file ||
+    !("nodes" in file) ||
+    !Array.isArray(file.nodes) ||
+    !("supplied" in file) ||
+    !Array.isArray(file.supplied) ||
+    !("miningResearch" in file) ||
+    typeof file.miningResearch !== "number" ||
+    !Number.isInteger(file.miningResearch) ||
+    file.miningResearch < 0
+  )
+    return Result.err("not-a-plan")
+  return Result.ok({
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    nodes: file.nodes,
+    supplied: file.supplied,
+    miningResearch: file.miningResearch,
+  })
+}
+
+/** Version of the plan file, nothing if it is not a plan file at all */
+function fileVersion(file: unknown) {
+  if (
+    typeof file !== "object" ||
+    !file ||
+    !("format" in file) ||
+    file.format !== PLAN_FILE_FORMAT ||
+    !("version" in file) ||
+    typeof file.version !== "number"
+  )
+    return
+  return file.version
+}
+
+/** Offers the plan for download as a `.json` file */
+export function downloadPlan(graph: RecipeGraph, filename = "plan.json") {
+  const blob = new Blob([JSON.stringify(serializePlan(graph), null, 2)], {
+    type: "application/json",
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export async function readPlanFile(
+  file: File,
+): Promise<Result<RecipeGraph, PlanFileError | "invalid-json">> {
+  let json: unknown
+  try {
+    json = JSON.parse(await file.text())
+  } catch {
+    return Result.err("invalid-json")
+  }
+  return parsePlan(json)
+}
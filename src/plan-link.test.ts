@@ -0,0 +1,57 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import { initialGraph } from "./graph"
+import { serializePlan } from "./plan-file"
+import { isPlanLinkHash, planLinkHash, readPlanLink } from "./plan-link"
+import { recipeMap } from "./recipe"
+
+// Blobs of happy-dom cannot be read as streams, unlike those of browsers
+if (!("stream" in Blob.prototype)) {
+  Object.defineProperty(Blob.prototype, "stream", {
+    value(this: Blob) {
+      return new ReadableStream({
+        start: async controller => {
+          controller.enqueue(new Uint8Array(await this.arrayBuffer()))
+          controller.close()
+        },
+      })
+    },
+  })
+}
+
+function plan() {
+  const graph = initialGraph(recipeMap.get("electronic-circuit")!, 5)
+  if (graph.err) throw graph.error
+  return graph.value
+}
+
+describe("plan links", () => {
+  test("open to the plan they were made from", async () => {
+    const hash = await planLinkHash(plan())
+    expect(isPlanLinkHash(hash)).toBe(true)
+    // Nothing that needs escaping in a URL
+    expect(hash).toMatch(/^#plan=[\w-]+$/)
+
+    const opened = await readPlanLink(hash)
+    if (opened.err) throw opened.error
+    expect(serializePlan(opened.value)).toEqual(serializePlan(plan()))
+  })
+
+  test("leave other hashes alone", async () => {
+    const res = await readPlanLink("#projects")
+    expect(res.err && res.error).toBe("not-a-plan-link")
+  })
+
+  test("report cut off links as corrupted", async () => {
+    const hash = await planLinkHash(plan())
+    const res = await readPlanLink(hash.slice(0, hash.length / 2))
+    expect(res.err && res.error).toBe("corrupted-link")
+  })
+
+  test("report links that are not base64 or deflated as corrupted", async () => {
+    for (const hash of ["#plan=!!!", "#plan=aGVsbG8"]) {
+      const res = await readPlanLink(hash)
+      expect(res.err && res.error).toBe("corrupted-link")
+    }
+  })
+})
@@ -0,0 +1,56 @@
+import { RecipeGraph } from "./graph"
+import { PlanFileError, parsePlan, serializePlan } from "./plan-file"
+import Result from "./result"
+
+const HASH_PREFIX = "#plan="
+
+/**
+ * URL hash holding the whole plan: the plan file, deflated and encoded as
+ * base64url, so links survive being pasted into chats.
+ */
+export async function planLinkHash(graph: RecipeGraph) {
+  const json = JSON.stringify(serializePlan(graph))
+  const stream = new Blob([json])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"))
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  return HASH_PREFIX + toBase64Url(bytes)
+}
+
+export function isPlanLinkHash(hash: string) {
+  return hash.startsWith(HASH_PREFIX)
+}
+
+export type PlanLinkError = "not-a-plan-link" | "corrupted-link" | PlanFileError
+
+export async function readPlanLink(
+  hash: string,
+): Promise<Result<RecipeGraph, PlanLinkError>> {
+  if (!isPlanLinkHash(hash)) return Result.err("not-a-plan-link")
+
+  let json: unknown
+  try {
+    const bytes = fromBase64Url(hash.slice(HASH_PREFIX.length))
+    const stream = new Blob([bytes])
+      .stream()
+      .pipeThrough(new DecompressionStream("deflate-raw"))
+    json = JSON.parse(await new Response(stream).text())
+  } catch {
+    return Result.err("corrupted-link")
+  }
+  return parsePlan(json)
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  // Spreading the whole array into `fromCharCode` overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
@@ -0,0 +1,130 @@
+import { BeltTier, DEFAULT_BELT_TIER, isBeltTier } from "./belts"
+import { Machine, machineItem, madeIn } from "./machine"
+import { Category, Item, Recipe, isKnownCategory, itemKey } from "./recipe"
+
+const STORAGE_KEY = "expand-preferences"
+const BELT_TIER_KEY = "belt-tier"
+const MACHINES_KEY = "machine-preferences"
+
+export type ExpandPreferences = {
+  /** Recipe to expand each item with, keyed by `itemKey` */
+  recipes: Map<string, string>
+  /** Items that expanding everything below a node leaves as they are */
+  stopAt: Set<string>
+  /** Names of recipes that solving the plan never uses */
+  disabledRecipes: Set<string>
+}
+
+type StoredPreferences = {
+  recipes?: Record<string, string>
+  stopAt?: string[]
+  disabledRecipes?: string[]
+}
+
+/** Falls back to no preferences when nothing was saved or it is unreadable */
+export function loadPreferences(): ExpandPreferences {
+  const preferences: ExpandPreferences = {
+    recipes: new Map(),
+    stopAt: new Set(),
+    disabledRecipes: new Set(),
+  }
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return preferences
+    const stored = JSON.parse(raw) as StoredPreferences
+    for (const [key, recipe] of Object.entries(stored.recipes ?? {})) {
+      if (typeof recipe === "string") preferences.recipes.set(key, recipe)
+    }
+    for (const key of stored.stopAt ?? []) {
+      if (typeof key === "string") preferences.stopAt.add(key)
+    }
+    for (const name of stored.disabledRecipes ?? []) {
+      if (typeof name === "string") preferences.disabledRecipes.add(name)
+    }
+  } catch (error) {
+    console.warn("Failed to load expand preferences", error)
+  }
+  return preferences
+}
+
+export function savePreferences(preferences: ExpandPreferences) {
+  const stored: StoredPreferences = {
+    recipes: Object.fromEntries(preferences.recipes),
+    stopAt: Array.from(preferences.stopAt),
+    disabledRecipes: Array.from(preferences.disabledRecipes),
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+  } catch (error) {
+    console.warn("Failed to save expand preferences", error)
+  }
+}
+
+export function preferredRecipe(preferences: ExpandPreferences, item: Item) {
+  return preferences.recipes.get(itemKey(item))
+}
+
+export function isStopItem(preferences: ExpandPreferences, item: Item) {
+  return preferences.stopAt.has(itemKey(item))
+}
+
+/** Belts that edges are sized in, the default when none was picked */
+export function loadBeltTier(): BeltTier {
+  try {
+    const stored = localStorage.getItem(BELT_TIER_KEY)
+    return isBeltTier(stored) ? stored : DEFAULT_BELT_TIER
+  } catch (error) {
+    console.warn("Failed to load belt tier", error)
+    return DEFAULT_BELT_TIER
+  }
+}
+
+export function saveBeltTier(tier: BeltTier) {
+  try {
+    localStorage.setItem(BELT_TIER_KEY, tier)
+  } catch (error) {
+    console.warn("Failed to save belt tier", error)
+  }
+}
+
+/**
+ * Machine new nodes of each recipe category are made in, by the name of its
+ * item. Categories left out get the first machine that can make them.
+ */
+export type MachinePreferences = Map<Category, string>
+
+export function loadMachinePreferences(): MachinePreferences {
+  const preferences: MachinePreferences = new Map()
+  try {
+    const raw = localStorage.getItem(MACHINES_KEY)
+    if (!raw) return preferences
+    const stored = JSON.parse(raw) as Record<string, unknown>
+    for (const [category, machine] of Object.entries(stored)) {
+      if (isKnownCategory(category) && typeof machine === "string")
+        preferences.set(category, machine)
+    }
+  } catch (error) {
+    console.warn("Failed to load machine preferences", error)
+  }
+  return preferences
+}
+
+export function saveMachinePreferences(preferences: MachinePreferences) {
+  try {
+    localStorage.setItem(
+      MACHINES_KEY,
+      JSON.stringify(Object.fromEntries(preferences)),
+    )
+  } catch (error) {
+    console.warn("Failed to save machine preferences", error)
+  }
+}
+
+export function preferredMachine(
+  preferences: MachinePreferences,
+  recipe: Recipe,
+): Machine {
+  const options = madeIn(recipe)
+  const name = preferences.get(recipe.category)
+  return options.find(option => machineItem(option).name === name) ?? options[0]
+}
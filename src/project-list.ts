@@ -0,0 +1,102 @@
+import {
+  ProjectSummary,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+} from "./projects"
+
+const dateFormat = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+})
+
+export type ProjectListProps = {
+  dialog: HTMLDialogElement
+  /** Project that is open at the moment, which can't be deleted */
+  currentProject(): string | undefined
+  onOpen(id: string): void
+  onNew(): void
+}
+
+/** Dialog listing projects saved in the browser */
+export function initProjectList({
+  dialog,
+  currentProject,
+  onOpen,
+  onNew,
+}: ProjectListProps) {
+  const list = dialog.querySelector(".project-list") as HTMLUListElement
+  const newButton = dialog.querySelector(".project-new") as HTMLButtonElement
+
+  newButton.addEventListener("click", () => {
+    dialog.close()
+    onNew()
+  })
+
+  function render() {
+    list.replaceChildren(...listProjects().map(projectRow))
+  }
+
+  function projectRow(project: ProjectSummary) {
+    const current = project.id === currentProject()
+    const row = document.createElement("li")
+    row.className = "settings-row project-row"
+
+    const name = document.createElement("input")
+    name.className = "settings-input"
+    name.value = project.name
+    name.required = true
+    name.title = "Rename project"
+    name.addEventListener("change", () => {
+      const value = name.value.trim()
+      if (!value) {
+        name.value = project.name
+        return
+      }
+      renameProject(project.id, value)
+    })
+
+    const updated = document.createElement("span")
+    updated.className = "project-date"
+    updated.textContent = dateFormat.format(project.updatedAt)
+
+    const openButton = rowButton("Open", () => {
+      dialog.close()
+      onOpen(project.id)
+    })
+    openButton.disabled = current
+
+    const duplicateButton = rowButton("Duplicate", () => {
+      duplicateProject(project.id, `${project.name} (copy)`)
+      render()
+    })
+
+    const deleteButton = rowButton("Delete", () => {
+      if (!confirm(`Delete "${project.name}"? This can't be undone.`)) return
+      deleteProject(project.id)
+      render()
+    })
+    deleteButton.disabled = current
+    if (current) row.title = "Open at the moment"
+
+    row.append(name, updated, openButton, duplicateButton, deleteButton)
+    return row
+  }
+
+  return {
+    open() {
+      render()
+      dialog.showModal()
+    },
+  }
+}
+
+function rowButton(label: string, onClick: () => void) {
+  const button = document.createElement("button")
+  button.type = "button"
+  button.className = "settings-remove"
+  button.textContent = label
+  button.addEventListener("click", onClick)
+  return button
+}
@@ -0,0 +1,154 @@
+import { RecipeGraph } from "./graph"
+import { PlanFileError, parsePlan, serializePlan } from "./plan-file"
+import Result from "./result"
+
+const INDEX_KEY = "projects"
+const LAST_PROJECT_KEY = "last-project"
+const PROJECT_KEY_PREFIX = "project:"
+
+export type ProjectSummary = {
+  id: string
+  name: string
+  /** Milliseconds since the epoch */
+  updatedAt: number
+}
+
+/**
+ * Projects saved in the browser, most recently changed first. Plans are kept
+ * in the same format as plan files, one storage entry per project.
+ */
+export function listProjects(): ProjectSummary[] {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY)
+    if (!raw) return []
+    const stored = JSON.parse(raw) as unknown
+    if (!Array.isArray(stored)) return []
+    return stored
+      .filter(
+        (project): project is ProjectSummary =>
+          typeof project?.id === "string" &&
+          typeof project.name === "string" &&
+          typeof project.updatedAt === "number",
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  } catch (error) {
+    console.warn("Failed to list projects", error)
+    return []
+  }
+}
+
+export function createProject(name: string, graph: RecipeGraph) {
+  const project: ProjectSummary = {
+    id: crypto.randomUUID(),
+    name,
+    updatedAt: Date.now(),
+  }
+  writePlan(project.id, JSON.stringify(serializePlan(graph)))
+  writeIndex([project, ...listProjects()])
+  return project
+}
+
+/** Stores the current state of the project's plan */
+export function saveProject(id: string, graph: RecipeGraph) {
+  writePlan(id, JSON.stringify(serializePlan(graph)))
+  updateSummary(id, { updatedAt: Date.now() })
+}
+
+export type LoadProjectError =
+  | { kind: "project-not-found"; id: string }
+  | { kind: "unreadable-project"; id: string; error: unknown }
+  | PlanFileError
+
+export function loadProject(id: string): Result<RecipeGraph, LoadProjectError> {
+  const raw = readPlan(id)
+  if (raw === undefined) return Result.err({ kind: "project-not-found", id })
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch (error) {
+    return Result.err({ kind: "unreadable-project", id, error })
+  }
+  return parsePlan(json)
+}
+
+export function renameProject(id: string, name: string) {
+  updateSummary(id, { name })
+}
+
+/** Copies the project under a new name, returns `undefined` if it is gone */
+export function duplicateProject(id: string, name: string) {
+  const original = listProjects().find(project => project.id === id)
+  const plan = readPlan(id)
+  if (!original || plan === undefined) return
+
+  const copy: ProjectSummary = {
+    id: crypto.randomUUID(),
+    name,
+    updatedAt: Date.now(),
+  }
+  writePlan(copy.id, plan)
+  writeIndex([copy, ...listProjects()])
+  return copy
+}
+
+export function deleteProject(id: string) {
+  writeIndex(listProjects().filter(project => project.id !== id))
+  try {
+    localStorage.removeItem(PROJECT_KEY_PREFIX + id)
+    if (lastProject() === id) localStorage.removeItem(LAST_PROJECT_KEY)
+  } catch (error) {
+    console.warn("Failed to delete project", error)
+  }
+}
+
+/** Project that was open when the page was closed */
+export function lastProject() {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY) ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function setLastProject(id: string) {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id)
+  } catch (error) {
+    console.warn("Failed to remember last project", error)
+  }
+}
+
+function updateSummary(
+  id: string,
+  changes: Partial<Omit<ProjectSummary, "id">>,
+) {
+  writeIndex(
+    listProjects().map(project =>
+      project.id === id ? { ...project, ...changes } : project,
+    ),
+  )
+}
+
+function readPlan(id: string) {
+  try {
+    return localStorage.getItem(PROJECT_KEY_PREFIX + id) ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+function writePlan(id: string, plan: string) {
+  try {
+    localStorage.setItem(PROJECT_KEY_PREFIX + id, plan)
+  } catch (error) {
+    console.warn("Failed to save project", error)
+  }
+}
+
+function writeIndex(projects: ProjectSummary[]) {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(projects))
+  } catch (error) {
+    console.warn("Failed to save project list", error)
+  }
+}
@@ -0,0 +1,130 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import type { NodeID, RootNode } from "./graph"
+import { Machine, machineCount } from "./machine"
+import { ModuleSetup } from "./modules"
+import { amountOf, edgeRate, nodeCrafts, nodeOutputs, surplus } from "./rates"
+import { Item, ItemAmount, itemKey, recipeMap } from "./recipe"
+
+const ASSEMBLER_2: Machine = { type: "assembly-machine", tier: 2 }
+const COPPER_PLATE: Item = { name: "copper-plate", type: "item" }
+const COPPER_CABLE: Item = { name: "copper-cable", type: "item" }
+const URANIUM_235: Item = { name: "uranium-235", type: "item" }
+const URANIUM_238: Item = { name: "uranium-238", type: "item" }
+
+function root(
+  name: string,
+  desiredProduction: number,
+  machine: Machine,
+  modules?: ModuleSetup,
+): RootNode {
+  const recipe = recipeMap.get(name)
+  if (!recipe) throw new Error(`Missing recipe ${name}`)
+  return {
+    id: 0 as NodeID,
+    type: "root",
+    recipe,
+    desiredProduction,
+    machine,
+    modules,
+    surplus: [],
+  }
+}
+
+/** Items listed in the expected order, each about as much as expected */
+function expectAmounts(items: ItemAmount[], expected: [Item, number][]) {
+  expect(items.map(itemKey)).toEqual(expected.map(([item]) => itemKey(item)))
+  for (const [item, amount] of expected) {
+    expect(amountOf(items, item)).toBeCloseTo(amount)
+  }
+}
+
+describe("a recipe with several items per craft", () => {
+  // Two cables out of every copper plate
+  const node = root("copper-cable", 10, ASSEMBLER_2)
+
+  test("runs one craft per result count", () => {
+    expect(nodeCrafts(node)).toBeCloseTo(5)
+  })
+
+  test("draws ingredients per craft", () => {
+    expect(edgeRate(node, COPPER_PLATE)).toBeCloseTo(5)
+  })
+
+  test("puts out the desired production", () => {
+    expectAmounts(nodeOutputs(node), [[COPPER_CABLE, 10]])
+  })
+
+  test("takes machines by crafting time and speed", () => {
+    // 5 crafts of 0.5s each, on machines crafting at 0.75
+    expect(machineCount(node.recipe, 10, ASSEMBLER_2)).toBeCloseTo(10 / 3)
+  })
+})
+
+describe("a recipe with results that come by chance", () => {
+  // Roots make the first result, uranium-235 in this case
+  const node = root("uranium-processing", 0.007, { type: "centrifuge" })
+
+  test("counts them by their expected amount", () => {
+    expectAmounts(node.recipe.results, [
+      [URANIUM_235, 0.007],
+      [URANIUM_238, 0.993],
+    ])
+  })
+
+  test("runs as many crafts as the expected amount calls for", () => {
+    expect(nodeCrafts(node)).toBeCloseTo(1)
+    expect(edgeRate(node, { name: "uranium-ore", type: "item" })).toBeCloseTo(
+      10,
+    )
+  })
+
+  test("leaves the other result as surplus", () => {
+    expectAmounts(surplus(node, [{ ...URANIUM_235, amount: 0.007 }]), [
+      [URANIUM_238, 0.993],
+    ])
+  })
+
+  test("takes machines by crafting time", () => {
+    expect(
+      machineCount(node.recipe, 0.993, node.machine, URANIUM_238),
+    ).toBeCloseTo(12)
+    expect(
+      machineCount(node.recipe, 0.007, node.machine, URANIUM_235),
+    ).toBeCloseTo(12)
+  })
+})
+
+describe("productivity modules", () => {
+  // Productivity module 3 gives 10% more output and 15% less speed each
+  const modules: ModuleSetup = {
+    modules: ["productivity-module-3", "productivity-module-3"],
+    beacons: 0,
+  }
+  const node = root("copper-cable", 12, ASSEMBLER_2, modules)
+
+  test("cut the crafts needed", () => {
+    expect(nodeCrafts(node)).toBeCloseTo(12 / 2 / 1.2)
+    expect(edgeRate(node, COPPER_PLATE)).toBeCloseTo(5)
+  })
+
+  test("still put out the desired production", () => {
+    expectAmounts(nodeOutputs(node), [[COPPER_CABLE, 12]])
+  })
+
+  test("slow the machines down", () => {
+    const crafts = 12 / 2 / 1.2
+    expect(
+      machineCount(node.recipe, 12, ASSEMBLER_2, undefined, modules),
+    ).toBeCloseTo((crafts * 0.5) / (0.75 * 0.7))
+  })
+
+  test("add up with beacons", () => {
+    const sped = { ...modules, beacons: 2 }
+    // Two beacons with two speed module 3 each, at half effect
+    const speed = 0.75 * (1 - 0.3 + 2 * 2 * 0.5 * 0.5)
+    expect(
+      machineCount(node.recipe, 12, ASSEMBLER_2, undefined, sped),
+    ).toBeCloseTo((12 / 2 / 1.2) * (0.5 / speed))
+  })
+})
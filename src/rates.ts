@@ -0,0 +1,159 @@
+import type { IntermediateNode, RootNode } from "./graph"
+import { moduleMultipliers } from "./modules"
+import {
+  Item,
+  ItemAmount,
+  Recipe,
+  ingredientAmount,
+  itemEq,
+  resultAmount,
+} from "./recipe"
+
+export type ProducingNode = RootNode | IntermediateNode
+
+/** Rates below this are considered to be rounding noise */
+export const RATE_EPSILON = 1e-9
+
+/**
+ * Crafts per second required to produce `production` items of `product` per
+ * second. Product defaults to the recipe's primary result.
+ */
+export function craftsPerSecond(
+  recipe: Recipe,
+  production: number,
+  product: Item = recipe.results[0],
+) {
+  return production / resultAmount(recipe, product)
+}
+
+/** Item the node is producing at its desired production rate */
+export function nodeProduct(node: ProducingNode): Item {
+  switch (node.type) {
+    case "root":
+      return node.recipe.results[0]
+    case "intermediate":
+      return node.item
+  }
+}
+
+/**
+ * Items per second of its product the node's machines make. Roots make more
+ * than their desired production when the plan consumes some of it.
+ */
+export function nodeProduction(node: ProducingNode) {
+  switch (node.type) {
+    case "root":
+      return node.production ?? node.desiredProduction
+    case "intermediate":
+      return node.desiredProduction
+  }
+}
+
+/**
+ * Crafts per second the node's machines run to reach its production.
+ * Productivity modules make each craft yield more, so fewer crafts and fewer
+ * ingredients are needed.
+ */
+export function nodeCrafts(node: ProducingNode) {
+  return (
+    craftsPerSecond(node.recipe, nodeProduction(node), nodeProduct(node)) /
+    moduleMultipliers(node.modules).productivity
+  )
+}
+
+/** Amount of `item` a single craft of the node yields, productivity included */
+export function nodeResultAmount(node: ProducingNode, item: Item) {
+  return (
+    resultAmount(node.recipe, item) *
+    moduleMultipliers(node.modules).productivity
+  )
+}
+
+/** Every result of the node's recipe together with its rate per second */
+export function nodeOutputs(node: ProducingNode): ItemAmount[] {
+  const crafts = nodeCrafts(node)
+  const productivity = moduleMultipliers(node.modules).productivity
+  const outputs: ItemAmount[] = []
+  for (const result of node.recipe.results) {
+    addItemAmount(outputs, result, crafts * result.amount * productivity)
+  }
+  return outputs
+}
+
+/**
+ * Outputs of the node that are not consumed by anyone. Negative amounts mean
+ * that the node cannot keep up with the demand for that item.
+ */
+export function surplus(node: ProducingNode, demanded: ItemAmount[]) {
+  const leftovers: ItemAmount[] = []
+  for (const output of nodeOutputs(node)) {
+    const consumed = amountOf(demanded, output)
+    const amount = output.amount - consumed
+    if (Math.abs(amount) > RATE_EPSILON) leftovers.push({ ...output, amount })
+  }
+  return leftovers
+}
+
+/**
+ * Items per second flowing along the edge from `node` to the child that
+ * supplies `item`. Derived solely from the node's recipe and its desired
+ * production, so that every edge in the graph is computed the same way.
+ */
+export function edgeRate(node: ProducingNode, item: Item) {
+  return nodeCrafts(node) * ingredientAmount(node.recipe, item)
+}
+
+export function amountOf(items: ItemAmount[], item: Item) {
+  let amount = 0
+  for (const entry of items) {
+    if (itemEq(entry, item)) amount += entry.amount
+  }
+  return amount
+}
+
+/** NOTE: Mutates `items` list passed in */
+export function addItemAmount(items: ItemAmount[], item: Item, amount: number) {
+  const existing = items.find(entry => itemEq(entry, item))
+  if (existing) existing.amount += amount
+  else items.push({ name: item.name, type: item.type, amount })
+}
+
+/**
+ * Solves `matrix * x = rhs` by Gaussian elimination with partial pivoting.
+ * Returns undefined when the system has no unique solution.
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]) {
+  const n = rhs.length
+  const rows = matrix.map((row, i) => [...row, rhs[i]!])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row]![col]!) > Math.abs(rows[pivot]![col]!)) {
+        pivot = row
+      }
+    }
+    const pivotRow = rows[pivot]!
+    if (Math.abs(pivotRow[col]!) < RATE_EPSILON) return
+    rows[pivot] = rows[col]!
+    rows[col] = pivotRow
+
+    for (let row = col + 1; row < n; row++) {
+      const current = rows[row]!
+      const factor = current[col]! / pivotRow[col]!
+      if (factor === 0) continue
+      for (let k = col; k <= n; k++) {
+        current[k] = current[k]! - factor * pivotRow[k]!
+      }
+    }
+  }
+
+  const x: number[] = Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    const current = rows[row]!
+    let sum = current[n]!
+    for (let k = row + 1; k < n; k++) sum -= current[k]! * x[k]!
+    x[row] = sum / current[row]!
+  }
+  return x
+}
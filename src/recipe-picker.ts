@@ -0,0 +1,128 @@
+import { Item, Recipe, recipeItemName, recipeName, t } from "./recipe"
+import { iconNameForRecipe, prepareIconWithName } from "./icon"
+
+export type RecipePickerProps = {
+  dialog: HTMLDialogElement
+  /** Called when the user asks for the pick to be reused when expanding all */
+  onRemember?(item: Item, recipe: Recipe): void
+}
+
+/** Resolves with `undefined` when the picker is dismissed */
+export type PickRecipe = (
+  item: Item,
+  recipes: Recipe[],
+) => Promise<Recipe | undefined>
+
+export function initRecipePicker({
+  dialog,
+  onRemember,
+}: RecipePickerProps): PickRecipe {
+  const form = dialog.querySelector(".picker-form") as HTMLFormElement
+  const title = dialog.querySelector(".dialog-title") as HTMLHeadingElement
+  const remember = dialog.querySelector(".picker-remember input") as
+    | HTMLInputElement
+    | undefined
+
+  let currentItem: Item | undefined
+  let currentRecipes: Recipe[] = []
+  let pending: ((recipe: Recipe | undefined) => void) | undefined
+  let controller: AbortController | undefined
+
+  function settle(recipe?: Recipe) {
+    const resolve = pending
+    pending = undefined
+    controller?.abort()
+    controller = undefined
+    if (dialog.open) dialog.close()
+    resolve?.(recipe)
+  }
+
+  dialog.addEventListener("cancel", ev => {
+    ev.preventDefault()
+    settle()
+  })
+
+  form.addEventListener("submit", ev => {
+    ev.preventDefault()
+    const data = new FormData(form)
+    // iOS doesn't set the value of the submitter button this fixes that
+    if (ev.submitter instanceof HTMLButtonElement && ev.submitter.name) {
+      data.set(ev.submitter.name, ev.submitter.value)
+    }
+    const name = data.get("recipeName")
+    const recipe = currentRecipes.find(recipe => recipe.name === name)
+    if (recipe && currentItem && remember?.checked) {
+      onRemember?.(currentItem, recipe)
+    }
+    settle(recipe)
+  })
+
+  return function pickRecipe(item, recipes) {
+    settle()
+
+    const signal = (controller = new AbortController()).signal
+    currentItem = item
+    currentRecipes = recipes
+    title.textContent = `Select recipe for ${t(item.name) ?? item.name}`
+
+    const cancelButton = document.createElement("button")
+    cancelButton.type = "submit"
+    cancelButton.className = "picker-cancel"
+    cancelButton.textContent = "Cancel"
+
+    form.replaceChildren(
+      ...recipes.map(recipe => pickerButton(recipe, signal)),
+      cancelButton,
+    )
+    dialog.showModal()
+
+    return new Promise(resolve => {
+      pending = resolve
+    })
+  }
+}
+
+function pickerButton(recipe: Recipe, signal: AbortSignal) {
+  const button = document.createElement("button")
+  button.type = "submit"
+  button.name = "recipeName"
+  button.value = recipe.name
+  button.className = "picker-button"
+
+  const label = document.createElement("span")
+  label.className = "picker-label"
+  label.textContent = t(recipe.name) ?? recipeName(recipe)
+
+  const formula = document.createElement("span")
+  formula.className = "picker-formula"
+  formula.textContent = `${describeItems(recipe.ingredients)} → ${describeItems(
+    recipe.results,
+  )}`
+
+  button.append(label, formula)
+
+  try {
+    prepareIconWithName(iconNameForRecipe(recipe), signal)
+      .then(url => {
+        const img = new Image()
+        img.className = "picker-icon"
+        img.src = url
+        img.alt = ""
+        button.prepend(img)
+      })
+      .catch(err => {
+        if (err.name === "AbortError") return
+        console.error(err, recipe)
+      })
+  } catch (err) {
+    console.error(err, recipe)
+  }
+
+  return button
+}
+
+function describeItems(items: Recipe["ingredients"]) {
+  return items
+    .map(item => recipeItemName(item) ?? `${item.amount} x ${item.name}`)
+    .join(", ")
+}
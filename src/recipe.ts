@@ -22,14 +22,25 @@ const categories = [
   "crafting-with-fluid",
   "smelting",
   "chemistry",
+  "oil-processing",
+  "centrifuging",
 ] as const
 export type Category = (typeof categories)[number]
+export const allCategories: readonly Category[] = categories
 export const isKnownCategory = checkMembership(categories)
 
 type RawRecipe = (typeof recipeList)[number]
 type RawRecipeItem =
   | (string | number)[] // in fact is `[name: string, amount: number]`
-  | { name: string; amount: number; type?: string }
+  | {
+      name: string
+      type?: string
+      amount?: number
+      // Results that come out only some of the time, e.g. uranium-235
+      probability?: number
+      amount_min?: number
+      amount_max?: number
+    }
 export type ItemAmount = Item & { amount: number }
 export type Item = {
   name: string
@@ -40,6 +51,17 @@ export function itemEq(a: Item, b: Item) {
   return a.name === b.name && a.type === b.type
 }
 
+/** Identifies the item in maps, sets and saved data */
+export function itemKey({ name, type }: Item) {
+  return `${type}:${name}`
+}
+
+export function itemFromKey(key: string): Item | undefined {
+  const [type, name] = key.split(":", 2)
+  if (!name || (type !== "item" && type !== "fluid")) return
+  return { name, type }
+}
+
 const disabledRecipes = new Set([
   "electric-energy-interface",
   "loader",
@@ -160,9 +182,26 @@ function parseItem(item: RawRecipeItem): Result<ItemAmount, ParseItemError> {
     if (typeof amount !== "number") return Result.err("invalid-amount")
     return Result.ok({ name, amount, type: "item" })
   }
-  const { name, amount, type = "item" } = item
+  const { name, type = "item", probability = 1 } = item
   if (type !== "item" && type !== "fluid") return Result.err("invalid-type")
-  return Result.ok({ name, amount, type })
+  const amount = item.amount ?? averageAmount(item)
+  if (amount === undefined || !(probability >= 0 && probability <= 1))
+    return Result.err("invalid-amount")
+  // Rates are averages over many crafts, so a chance is as good as a fraction
+  return Result.ok({ name, amount: amount * probability, type })
+}
+
+/** Results given as a range come out in any amount in it with equal odds */
+function averageAmount({
+  amount_min,
+  amount_max,
+}: {
+  amount_min?: number
+  amount_max?: number
+}) {
+  if (amount_min === undefined || amount_max === undefined) return
+  if (amount_max < amount_min) return
+  return (amount_min + amount_max) / 2
 }
 
 function guardAndReport<T, U extends T>({
@@ -211,7 +250,10 @@ if (import.meta.env.DEV) {
 }
 
 export function recipeName(recipe: Recipe) {
-  const primaryItem = recipe.results[0]
+  // Recipes with several results (e.g. oil processing) are better known by
+  // their own name than by the name of whatever comes out first
+  const primaryItem =
+    recipe.results.length === 1 ? recipe.results[0] : undefined
   const itemTranslation = primaryItem && recipeItemName(primaryItem)
   if (itemTranslation) return itemTranslation
 
@@ -237,6 +279,24 @@ export function t(key: string) {
   }
 }
 
+/** Amount of `item` produced by a single craft of the recipe */
+export function resultAmount(recipe: Recipe, item: Item) {
+  let amount = 0
+  for (const result of recipe.results) {
+    if (itemEq(result, item)) amount += result.amount
+  }
+  return amount
+}
+
+/** Amount of `item` consumed by a single craft of the recipe */
+export function ingredientAmount(recipe: Recipe, item: Item) {
+  let amount = 0
+  for (const ingredient of recipe.ingredients) {
+    if (itemEq(ingredient, item)) amount += ingredient.amount
+  }
+  return amount
+}
+
 export function recipesForResult(targetItem: Item) {
   return recipes.filter(recipe =>
     recipe.results.some(result => itemEq(result, targetItem)),
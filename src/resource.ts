@@ -0,0 +1,130 @@
+import { MachineEnergy, PowerUse, energyUse } from "./machine"
+import { Item, itemKey } from "./recipe"
+
+/** What takes a raw resource out of the ground, or out of the water */
+export type Extractor =
+  | { type: "electric-mining-drill" }
+  | { type: "burner-mining-drill" }
+  | {
+      type: "pumpjack"
+      /** Yield of the oil field in percent, 100 on a field worth 10 oil/s */
+      yield: number
+    }
+  | { type: "offshore-pump" }
+
+type Resource = {
+  /** Seconds a drill with mining speed 1 takes to mine one unit */
+  miningTime: number
+  /** Extractors that can take the resource, the usual one first */
+  extractors: Extractor[]
+}
+
+const drills: Extractor[] = [
+  { type: "electric-mining-drill" },
+  { type: "burner-mining-drill" },
+]
+
+const resources: Record<string, Resource> = {
+  "item:iron-ore": { miningTime: 1, extractors: drills },
+  "item:copper-ore": { miningTime: 1, extractors: drills },
+  "item:coal": { miningTime: 1, extractors: drills },
+  "item:stone": { miningTime: 1, extractors: drills },
+  // Mining it also takes sulfuric acid, which isn't planned for
+  "item:uranium-ore": {
+    miningTime: 2,
+    extractors: [{ type: "electric-mining-drill" }],
+  },
+  "fluid:crude-oil": {
+    miningTime: 1,
+    extractors: [{ type: "pumpjack", yield: 100 }],
+  },
+  "fluid:water": { miningTime: 1, extractors: [{ type: "offshore-pump" }] },
+}
+
+/** Extra output every level of mining productivity research gives */
+const MINING_PRODUCTIVITY_PER_LEVEL = 0.1
+/** Crude oil per second a pumpjack gives on a 100% field */
+const PUMPJACK_BASE_RATE = 10
+const OFFSHORE_PUMP_RATE = 1200
+
+export function isResource(item: Item) {
+  return itemKey(item) in resources
+}
+
+/** Extractors that can take the item, `undefined` when it isn't a resource */
+export function extractorsFor(item: Item) {
+  return resources[itemKey(item)]?.extractors
+}
+
+/**
+ * Units of the resource per second a single extractor gives. Mining
+ * productivity research adds to drills and pumpjacks, but not to offshore
+ * pumps.
+ */
+export function extractionRate(
+  extractor: Extractor,
+  item: Item,
+  miningResearch: number,
+) {
+  const productivity = 1 + miningResearch * MINING_PRODUCTIVITY_PER_LEVEL
+  const miningTime = resources[itemKey(item)]?.miningTime ?? 1
+  switch (extractor.type) {
+    case "electric-mining-drill":
+      return (0.5 / miningTime) * productivity
+    case "burner-mining-drill":
+      return (0.25 / miningTime) * productivity
+    case "pumpjack":
+      return ((PUMPJACK_BASE_RATE * extractor.yield) / 100) * productivity
+    case "offshore-pump":
+      return OFFSHORE_PUMP_RATE
+  }
+}
+
+export function extractorCount(
+  extractor: Extractor,
+  item: Item,
+  requiredAmount: number,
+  miningResearch: number,
+) {
+  return requiredAmount / extractionRate(extractor, item, miningResearch)
+}
+
+/** Energy an extractor takes, `undefined` for offshore pumps, which take none */
+export function extractorEnergy(
+  extractor: Extractor,
+): MachineEnergy | undefined {
+  switch (extractor.type) {
+    case "electric-mining-drill":
+      return { source: "electric", active: 90e3, drain: 0 }
+    case "burner-mining-drill":
+      return { source: "burner", active: 150e3 }
+    case "pumpjack":
+      return { source: "electric", active: 90e3, drain: 0 }
+    case "offshore-pump":
+      return undefined
+  }
+}
+
+/** Power taken by `count` extractors worth of extraction */
+export function extractorPower(extractor: Extractor, count: number): PowerUse {
+  const energy = extractorEnergy(extractor)
+  if (!energy) return { electric: 0, fuel: 0 }
+  return energyUse(energy, count)
+}
+
+export function extractorItem(extractor: Extractor): Item {
+  return { name: extractor.type, type: "item" }
+}
+
+export function extractorName(extractor: Extractor) {
+  switch (extractor.type) {
+    case "electric-mining-drill":
+      return "Electric Mining Drills"
+    case "burner-mining-drill":
+      return "Burner Mining Drills"
+    case "pumpjack":
+      return "Pumpjacks"
+    case "offshore-pump":
+      return "Offshore Pumps"
+  }
+}
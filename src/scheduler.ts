@@ -49,7 +49,7 @@ function reschedule() {
       runLoop(deadline.timeRemaining())
     )
   } else {
-    scheduleId = setTimeout(() => runLoop(), 0)
+    scheduleId = window.setTimeout(() => runLoop(), 0)
   }
 }
 
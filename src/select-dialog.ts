@@ -36,7 +36,13 @@ function recipeButton(recipe: Recipe, signal?: AbortSignal) {
 
 export type SelectionDialogProps = {
   dialog: HTMLDialogElement
-  onSelected(recipeName: string): void
+  onSelected(recipeName: string, rate: number): void
+}
+
+export type OpenSelectionDialogOptions = {
+  title: string
+  /** Whether the dialog can be closed without selecting a recipe */
+  dismissable: boolean
 }
 
 export function initSelectionDialog({
@@ -45,41 +51,55 @@ export function initSelectionDialog({
 }: SelectionDialogProps) {
   const form = dialog.querySelector(".selection-form") as HTMLFormElement
   const modal = dialog.querySelector(".dialog-modal") as HTMLDivElement
+  const dialogTitle = dialog.querySelector(".dialog-title") as HTMLElement
+  const rateInput = dialog.querySelector(".rate-input") as HTMLInputElement
+
+  let dismissable = false
+
+  function hide() {
+    dialog.classList.add("hidden")
+    function handleAnimationEnd(animationEvent: AnimationEvent) {
+      if (
+        animationEvent.animationName === "fade-out" &&
+        animationEvent.target === dialog
+      ) {
+        dialog.close()
+        dialog.removeEventListener("animationend", handleAnimationEnd)
+      }
+    }
+    dialog.addEventListener("animationend", handleAnimationEnd)
+  }
 
   // Init dialog
   {
-    const controller = new AbortController()
-
-    dialog.addEventListener(
-      "submit",
-      ev => {
-        ev.preventDefault()
-        const data = new FormData(ev.target as HTMLFormElement)
-        // iOS doesn't set the value of the submitter button this fixes that
-        if (ev.submitter instanceof HTMLButtonElement && ev.submitter.name) {
-          data.set(ev.submitter.name, ev.submitter.value)
-        }
-        const recipeName = data.get("recipeName") as string
-        onSelected(recipeName)
-
-        dialog.classList.add("hidden")
-        function handleAnimationEnd(animationEvent: AnimationEvent) {
-          if (
-            animationEvent.animationName === "fade-out" &&
-            animationEvent.target === dialog
-          ) {
-            dialog.close()
-            controller.abort()
-          }
-          dialog.removeEventListener("animationend", handleAnimationEnd)
-        }
-        dialog.addEventListener("animationend", handleAnimationEnd)
-      },
-      { once: true },
-    )
-    form.append(
-      ...recipes.map(recipe => recipeButton(recipe, controller.signal)),
-    )
+    dialog.addEventListener("submit", ev => {
+      ev.preventDefault()
+      const data = new FormData(ev.target as HTMLFormElement)
+      // iOS doesn't set the value of the submitter button this fixes that
+      if (ev.submitter instanceof HTMLButtonElement && ev.submitter.name) {
+        data.set(ev.submitter.name, ev.submitter.value)
+      }
+      const recipeName = data.get("recipeName") as string
+      const rate = Number(data.get("rate"))
+      if (!Number.isFinite(rate) || rate < 0) {
+        rateInput.focus()
+        return
+      }
+      onSelected(recipeName, rate)
+      hide()
+    })
+
+    dialog.addEventListener("cancel", ev => {
+      ev.preventDefault()
+      if (dismissable) hide()
+    })
+
+    // Enter in the rate field would otherwise submit the first recipe
+    rateInput.addEventListener("keydown", ev => {
+      if (ev.key === "Enter") ev.preventDefault()
+    })
+
+    form.append(...recipes.map(recipe => recipeButton(recipe)))
   }
 
   // Init tooltip
@@ -154,6 +174,22 @@ export function initSelectionDialog({
       )
     }
   }
+
+  return {
+    open(options: OpenSelectionDialogOptions) {
+      dismissable = options.dismissable
+      dialogTitle.textContent = options.title
+      dialog.classList.remove("hidden")
+      // Markup may include dialog element already shown, we have to reopen it
+      // so it becomes modal, and also draws ::backdrop pseudo-element
+      if (dialog.open) dialog.close()
+      dialog.showModal()
+    },
+
+    close() {
+      if (dialog.open) hide()
+    },
+  }
 }
 
 function ingredient(ingredient: ItemAmount) {
@@ -0,0 +1,66 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import { minimize } from "./simplex"
+
+describe("minimize", () => {
+  test("finds the optimum of a small program", () => {
+    // Cheapest way to get x + y >= 4 and x + 3y >= 6 at cost 2x + 3y
+    const solution = minimize({
+      objective: [2, 3],
+      constraints: [
+        { coefficients: [1, 1], relation: ">=", rhs: 4 },
+        { coefficients: [1, 3], relation: ">=", rhs: 6 },
+      ],
+    })
+    if (solution.err) throw new Error(solution.error)
+    expect(solution.value[0]).toBeCloseTo(3)
+    expect(solution.value[1]).toBeCloseTo(1)
+  })
+
+  test("terminates on degenerate programs", () => {
+    // Several constraints meet at the optimum, which stalls the pivots
+    const solution = minimize({
+      objective: [-0.75, 150, -0.02, 6],
+      constraints: [
+        { coefficients: [0.25, -60, -0.04, 9], relation: "<=", rhs: 0 },
+        { coefficients: [0.5, -90, -0.02, 3], relation: "<=", rhs: 0 },
+        { coefficients: [0, 0, 1, 0], relation: "<=", rhs: 1 },
+      ],
+    })
+    if (solution.err) throw new Error(solution.error)
+    expect(solution.value[0]).toBeCloseTo(0.04)
+    expect(solution.value[2]).toBeCloseTo(1)
+  })
+
+  test("handles equalities and negative right hand sides", () => {
+    const solution = minimize({
+      objective: [1, 1],
+      constraints: [
+        { coefficients: [1, -1], relation: "=", rhs: -2 },
+        { coefficients: [-1, 0], relation: "<=", rhs: -1 },
+      ],
+    })
+    if (solution.err) throw new Error(solution.error)
+    expect(solution.value[0]).toBeCloseTo(1)
+    expect(solution.value[1]).toBeCloseTo(3)
+  })
+
+  test("reports infeasible programs", () => {
+    const solution = minimize({
+      objective: [1],
+      constraints: [
+        { coefficients: [1], relation: ">=", rhs: 2 },
+        { coefficients: [1], relation: "<=", rhs: 1 },
+      ],
+    })
+    expect(solution.err && solution.error).toBe("infeasible")
+  })
+
+  test("reports unbounded programs", () => {
+    const solution = minimize({
+      objective: [-1],
+      constraints: [{ coefficients: [1], relation: ">=", rhs: 1 }],
+    })
+    expect(solution.err && solution.error).toBe("unbounded")
+  })
+})
@@ -0,0 +1,197 @@
+import Result from "./result"
+
+export type Constraint = {
+  coefficients: number[]
+  relation: "<=" | ">=" | "="
+  rhs: number
+}
+
+export type LinearProgram = {
+  /** Cost of a unit of every variable. Every variable is non-negative */
+  objective: number[]
+  constraints: Constraint[]
+}
+
+export type SimplexError = "infeasible" | "unbounded" | "iteration-limit"
+
+const EPSILON = 1e-9
+const MAX_ITERATIONS = 50_000
+
+/**
+ * Minimises the objective using the two-phase tableau simplex method. Bland's
+ * rule picks the pivots, so degenerate programs do not cycle.
+ */
+export function minimize({
+  objective,
+  constraints,
+}: LinearProgram): Result<number[], SimplexError> {
+  const variables = objective.length
+
+  // Right hand sides have to be non-negative for the initial basis
+  const rows = constraints.map(constraint =>
+    constraint.rhs >= 0
+      ? constraint
+      : {
+          coefficients: constraint.coefficients.map(value => -value),
+          relation: flipRelation(constraint.relation),
+          rhs: -constraint.rhs,
+        },
+  )
+
+  const slackColumns = rows.filter(row => row.relation !== "=").length
+  const artificialColumns = rows.filter(row => row.relation !== "<=").length
+  const artificialStart = variables + slackColumns
+  const columns = artificialStart + artificialColumns
+
+  const tableau: number[][] = []
+  const basis: number[] = []
+  let slack = variables
+  let artificial = artificialStart
+  for (const row of rows) {
+    const tableauRow = Array<number>(columns + 1).fill(0)
+    for (const [column, value] of row.coefficients.entries()) {
+      tableauRow[column] = value
+    }
+    tableauRow[columns] = row.rhs
+    switch (row.relation) {
+      case "<=":
+        tableauRow[slack] = 1
+        basis.push(slack++)
+        break
+      case ">=":
+        tableauRow[slack++] = -1
+        tableauRow[artificial] = 1
+        basis.push(artificial++)
+        break
+      case "=":
+        tableauRow[artificial] = 1
+        basis.push(artificial++)
+        break
+    }
+    tableau.push(tableauRow)
+  }
+
+  const phaseOneCosts = Array<number>(columns).fill(0)
+  phaseOneCosts.fill(1, artificialStart)
+  const phaseOne = runSimplex(tableau, basis, phaseOneCosts, columns)
+  if (phaseOne.err) return phaseOne
+  if (objectiveValue(tableau, basis, phaseOneCosts) > EPSILON * rows.length) {
+    return Result.err("infeasible")
+  }
+
+  // Artificial variables that stayed in the basis are all zero by now. Rows
+  // where nothing else can replace them are redundant
+  for (const [row, column] of basis.entries()) {
+    if (column < artificialStart) continue
+    const tableauRow = tableau[row]!
+    const replacement = tableauRow.findIndex(
+      (value, i) => i < artificialStart && Math.abs(value) > EPSILON,
+    )
+    if (replacement !== -1) pivot(tableau, basis, row, replacement)
+  }
+
+  const phaseTwoCosts = Array<number>(columns).fill(0)
+  for (const [column, cost] of objective.entries()) {
+    phaseTwoCosts[column] = cost
+  }
+  const phaseTwo = runSimplex(tableau, basis, phaseTwoCosts, artificialStart)
+  if (phaseTwo.err) return phaseTwo
+
+  const solution = Array<number>(variables).fill(0)
+  for (const [row, column] of basis.entries()) {
+    if (column < variables) solution[column] = tableau[row]![columns]!
+  }
+  return Result.ok(solution)
+}
+
+function flipRelation(relation: Constraint["relation"]) {
+  switch (relation) {
+    case "<=":
+      return ">="
+    case ">=":
+      return "<="
+    case "=":
+      return "="
+  }
+}
+
+/**
+ * Pivots until no column below `enteringLimit` improves the objective.
+ *
+ * NOTE: Mutates tableau and basis passed in
+ */
+function runSimplex(
+  tableau: number[][],
+  basis: number[],
+  costs: number[],
+  enteringLimit: number,
+): Result<void, SimplexError> {
+  const rhsColumn = costs.length
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let entering = -1
+    for (let column = 0; column < enteringLimit; column++) {
+      let reducedCost = costs[column]!
+      for (const [row, basic] of basis.entries()) {
+        reducedCost -= costs[basic]! * tableau[row]![column]!
+      }
+      if (reducedCost < -EPSILON) {
+        entering = column
+        break
+      }
+    }
+    if (entering === -1) return Result.void
+
+    let leaving = -1
+    let bestRatio = Infinity
+    for (const [row, tableauRow] of tableau.entries()) {
+      const value = tableauRow[entering]!
+      if (value <= EPSILON) continue
+      const ratio = tableauRow[rhsColumn]! / value
+      if (
+        ratio < bestRatio - EPSILON ||
+        (ratio <= bestRatio + EPSILON && basis[row]! < basis[leaving]!)
+      ) {
+        bestRatio = ratio
+        leaving = row
+      }
+    }
+    if (leaving === -1) return Result.err("unbounded")
+
+    pivot(tableau, basis, leaving, entering)
+  }
+  return Result.err("iteration-limit")
+}
+
+/** NOTE: Mutates tableau and basis passed in */
+function pivot(
+  tableau: number[][],
+  basis: number[],
+  pivotRow: number,
+  pivotColumn: number,
+) {
+  const source = tableau[pivotRow]!
+  const pivotValue = source[pivotColumn]!
+  for (let column = 0; column < source.length; column++) {
+    source[column] = source[column]! / pivotValue
+  }
+
+  for (const [row, tableauRow] of tableau.entries()) {
+    if (row === pivotRow) continue
+    const factor = tableauRow[pivotColumn]!
+    if (factor === 0) continue
+    for (let column = 0; column < tableauRow.length; column++) {
+      tableauRow[column] = tableauRow[column]! - factor * source[column]!
+    }
+  }
+
+  basis[pivotRow] = pivotColumn
+}
+
+function objectiveValue(tableau: number[][], basis: number[], costs: number[]) {
+  const rhsColumn = costs.length
+  let value = 0
+  for (const [row, column] of basis.entries()) {
+    value += costs[column]! * tableau[row]![rhsColumn]!
+  }
+  return value
+}
@@ -0,0 +1,100 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import { graphFromPlan } from "./graph"
+import { amountOf } from "./rates"
+import { Item, itemKey, recipeMap } from "./recipe"
+import { isResource } from "./resource"
+import { PlanTarget, ProductionPlan, solvePlan } from "./solver"
+
+const CRUDE_OIL: Item = { name: "crude-oil", type: "fluid" }
+const COAL: Item = { name: "coal", type: "item" }
+const PETROLEUM_GAS: Item = { name: "petroleum-gas", type: "fluid" }
+const URANIUM_ORE: Item = { name: "uranium-ore", type: "item" }
+
+function target(name: string, rate: number): PlanTarget {
+  const recipe = recipeMap.get(name)
+  if (!recipe) throw new Error(`Missing recipe ${name}`)
+  return { recipe, rate }
+}
+
+function crafts(plan: ProductionPlan, name: string) {
+  return plan.recipes.find(({ recipe }) => recipe.name === name)?.crafts ?? 0
+}
+
+describe("solvePlan", () => {
+  test("cracks advanced oil processing products into plastic", () => {
+    const plan = solvePlan([target("plastic-bar", 10)], "raw-inputs")
+    if (plan.err) throw new Error(plan.error)
+
+    expect(crafts(plan.value, "plastic-bar")).toBeCloseTo(5)
+    expect(crafts(plan.value, "advanced-oil-processing")).toBeGreaterThan(0)
+    expect(crafts(plan.value, "light-oil-cracking")).toBeGreaterThan(0)
+    expect(crafts(plan.value, "basic-oil-processing")).toBe(0)
+    // Coal and steam make more oil per unit, but cost more than crude does
+    expect(crafts(plan.value, "coal-liquefaction")).toBe(0)
+    // Crude oil is a resource even though barrels can be emptied into it
+    expect(crafts(plan.value, "empty-crude-oil-barrel")).toBe(0)
+    // Cracked all the way down, 100 crude oil make 97.5 petroleum gas
+    expect(amountOf(plan.value.rawInputs, CRUDE_OIL)).toBeCloseTo(4000 / 39)
+    expect(amountOf(plan.value.rawInputs, COAL)).toBeCloseTo(5)
+  })
+
+  test("leaves out disabled recipes", () => {
+    const plan = solvePlan(
+      [target("plastic-bar", 10)],
+      "raw-inputs",
+      undefined,
+      undefined,
+      new Set(["advanced-oil-processing"]),
+    )
+    if (plan.err) throw new Error(plan.error)
+
+    expect(crafts(plan.value, "advanced-oil-processing")).toBe(0)
+    expect(crafts(plan.value, "basic-oil-processing")).toBeCloseTo(20 / 9)
+  })
+
+  test("takes supplied items as they are", () => {
+    const plan = solvePlan(
+      [target("plastic-bar", 10)],
+      "raw-inputs",
+      new Set([itemKey(PETROLEUM_GAS)]),
+    )
+    if (plan.err) throw new Error(plan.error)
+
+    expect(plan.value.recipes.map(({ recipe }) => recipe.name)).toEqual([
+      "plastic-bar",
+    ])
+    expect(amountOf(plan.value.rawInputs, PETROLEUM_GAS)).toBeCloseTo(100)
+  })
+
+  test("makes science packs out of resources alone", () => {
+    const plan = solvePlan([target("chemical-science-pack", 1)], "raw-inputs")
+    if (plan.err) throw new Error(plan.error)
+
+    expect(crafts(plan.value, "chemical-science-pack")).toBeCloseTo(0.5)
+    expect(plan.value.rawInputs.every(isResource)).toBe(true)
+  })
+
+  test("counts a target that feeds itself by its net output", () => {
+    // Kovarex nets a single uranium-235 and takes 3 uranium-238 every craft
+    const plan = solvePlan(
+      [target("kovarex-enrichment-process", 0.1)],
+      "raw-inputs",
+    )
+    if (plan.err) throw new Error(plan.error)
+
+    expect(crafts(plan.value, "kovarex-enrichment-process")).toBeCloseTo(0.1)
+    expect(crafts(plan.value, "uranium-processing")).toBeCloseTo(0.3 / 0.993)
+    expect(amountOf(plan.value.rawInputs, URANIUM_ORE)).toBeCloseTo(3 / 0.993)
+
+    const graph = graphFromPlan(plan.value)
+    if (graph.err) throw graph.error
+    const kovarex = Array.from(graph.value.nodes.values()).filter(
+      node =>
+        node.type !== "terminal" &&
+        node.type !== "resource" &&
+        node.recipe.name === "kovarex-enrichment-process",
+    )
+    expect(kovarex.map(node => node.type)).toEqual(["root"])
+  })
+})
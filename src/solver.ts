@@ -0,0 +1,183 @@
+import { MachineChoice, craftingSpeed, firstMachine } from "./machine"
+import {
+  Item,
+  ItemAmount,
+  Recipe,
+  ingredientAmount,
+  itemKey,
+  recipesForResult,
+  resultAmount,
+} from "./recipe"
+import { RATE_EPSILON, addItemAmount } from "./rates"
+import { isResource } from "./resource"
+import Result from "./result"
+import { Constraint, SimplexError, minimize } from "./simplex"
+
+export type Objective = "raw-inputs" | "machines"
+
+export type PlanTarget = { recipe: Recipe; rate: number }
+
+export type ProductionPlan = {
+  targets: PlanTarget[]
+  /**
+   * Every recipe the plan uses, the targets' own included, along with how
+   * fast it has to run
+   */
+  recipes: { recipe: Recipe; crafts: number }[]
+  /**
+   * Resources, supplied items and items that no enabled recipe produces, per
+   * second
+   */
+  rawInputs: ItemAmount[]
+}
+
+/**
+ * Weight of the other objective, so that among equally good plans the one
+ * that is better by the other measure wins
+ */
+const TIE_BREAKER = 1e-3
+
+/**
+ * Cost of a unit of a raw input when minimising raw inputs. Fluids are
+ * extracted and moved in amounts about ten times those of items, and water
+ * comes out of offshore pumps that take no power, so it is close to free.
+ */
+function rawCost(item: Item) {
+  if (item.type === "item") return 1
+  return item.name === "water" ? 0.01 : 0.1
+}
+
+/**
+ * Finds the mix of recipes that produces every target while minimising the
+ * objective. Every recipe that can contribute to the targets, however
+ * indirectly, is considered unless its name is in `disabledRecipes`. Each item
+ * consumed anywhere gets a constraint that its production covers its
+ * consumption, so that byproducts may be left over but nothing is ever short.
+ * Each target's product additionally has to come out at the target rate, net
+ * of whatever the plan feeds back into itself, and the target's recipe alone
+ * has to make that much. Resources and supplied items, keyed by `itemKey`, are
+ * taken as they are instead of being produced. Machine counts are those of the
+ * machine `chooseMachine` puts each recipe in, as the plan's nodes will.
+ */
+export function solvePlan(
+  targets: PlanTarget[],
+  objective: Objective,
+  supplied: ReadonlySet<string> = new Set(),
+  chooseMachine: MachineChoice = firstMachine,
+  disabledRecipes: ReadonlySet<string> = new Set(),
+): Result<ProductionPlan, SimplexError> {
+  const candidates = reachableRecipes(targets, supplied, disabledRecipes)
+
+  const demand: ItemAmount[] = []
+  const targetRates = new Map<string, number>()
+  for (const { recipe, rate } of targets) {
+    const product = recipe.results[0]
+    addItemAmount(demand, product, rate)
+    targetRates.set(recipe.name, (targetRates.get(recipe.name) ?? 0) + rate)
+  }
+
+  const items = new Map<string, Item>()
+  for (const { recipe } of targets) {
+    const { name, type } = recipe.results[0]
+    items.set(itemKey({ name, type }), { name, type })
+  }
+  for (const recipe of candidates) {
+    for (const { name, type } of recipe.ingredients) {
+      items.set(itemKey({ name, type }), { name, type })
+    }
+  }
+  const rawItems = Array.from(items.values()).filter(
+    item =>
+      isResource(item) ||
+      supplied.has(itemKey(item)) ||
+      !candidates.some(recipe => resultAmount(recipe, item) > 0),
+  )
+
+  // Variables are crafts per second of every candidate recipe, followed by
+  // the supply of every raw item
+  const machineCosts = candidates.map(
+    recipe => recipe.energyRequired / craftingSpeed(chooseMachine(recipe)),
+  )
+  const rawCosts = rawItems.map(rawCost)
+  const balances = Array.from(
+    items.values(),
+    (item): Constraint => ({
+      coefficients: [
+        ...candidates.map(recipe => netAmount(recipe, item)),
+        ...rawItems.map(raw => (itemKey(raw) === itemKey(item) ? 1 : 0)),
+      ],
+      relation: ">=",
+      rhs: demand
+        .filter(entry => itemKey(entry) === itemKey(item))
+        .reduce((sum, entry) => sum + entry.amount, 0),
+    }),
+  )
+  // Keeps the plan from making a target's product some other way
+  const targetRuns = candidates.flatMap((recipe, i): Constraint[] => {
+    const rate = targetRates.get(recipe.name)
+    const net = netAmount(recipe, recipe.results[0])
+    if (rate === undefined || net <= 0) return []
+    const coefficients = Array<number>(
+      candidates.length + rawItems.length,
+    ).fill(0)
+    coefficients[i] = net
+    return [{ coefficients, relation: ">=", rhs: rate }]
+  })
+  const program = {
+    objective:
+      objective === "raw-inputs"
+        ? [...machineCosts.map(cost => cost * TIE_BREAKER), ...rawCosts]
+        : [...machineCosts, ...rawCosts.map(cost => cost * TIE_BREAKER)],
+    constraints: [...balances, ...targetRuns],
+  }
+
+  const solution = minimize(program)
+  if (solution.err) return solution
+
+  const plan: ProductionPlan = { targets, recipes: [], rawInputs: [] }
+  for (const [i, recipe] of candidates.entries()) {
+    const crafts = solution.value[i]!
+    if (crafts > RATE_EPSILON) plan.recipes.push({ recipe, crafts })
+  }
+  for (const [i, item] of rawItems.entries()) {
+    const amount = solution.value[candidates.length + i]!
+    if (amount > RATE_EPSILON) plan.rawInputs.push({ ...item, amount })
+  }
+  return Result.ok(plan)
+}
+
+/** What a single craft of the recipe adds to the plan's stock of `item` */
+function netAmount(recipe: Recipe, item: Item) {
+  return resultAmount(recipe, item) - ingredientAmount(recipe, item)
+}
+
+/**
+ * The targets' recipes, recipes producing their ingredients, their
+ * ingredients and so on. Resources and supplied items are not produced.
+ */
+function reachableRecipes(
+  targets: PlanTarget[],
+  supplied: ReadonlySet<string>,
+  disabledRecipes: ReadonlySet<string>,
+) {
+  const found = new Map<string, Recipe>()
+  for (const { recipe } of targets) found.set(recipe.name, recipe)
+  const visitedItems = new Set<string>()
+  const queue: Item[] = targets.flatMap(target => target.recipe.ingredients)
+  while (true) {
+    const item = queue.shift()
+    if (!item) break
+    const key = itemKey(item)
+    if (visitedItems.has(key) || supplied.has(key) || isResource(item)) {
+      continue
+    }
+    visitedItems.add(key)
+
+    for (const recipe of recipesForResult(item)) {
+      if (found.has(recipe.name) || disabledRecipes.has(recipe.name)) continue
+      found.set(recipe.name, recipe)
+      queue.push(...recipe.ingredients)
+    }
+  }
+  return Array.from(found.values())
+}
@@ -0,0 +1,71 @@
+import { RecipeGraph, planTotals } from "./graph"
+import { formatPower, machineItem, machineName } from "./machine"
+import { panelRow } from "./panel-row"
+import { t } from "./recipe"
+import { extractorItem, extractorName } from "./resource"
+
+const numberFormat = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+})
+
+export type TotalsPanelProps = {
+  panel: HTMLElement
+}
+
+/**
+ * Sums up the whole plan: the items it takes in, the machines it runs on and
+ * the power they take
+ */
+export function initTotalsPanel({ panel }: TotalsPanelProps) {
+  const inputList = panel.querySelector(".totals-inputs") as HTMLUListElement
+  const machineList = panel.querySelector(
+    ".totals-machines",
+  ) as HTMLUListElement
+  const powerList = panel.querySelector(".totals-power") as HTMLUListElement
+  let controller: AbortController | undefined
+
+  return {
+    update(graph: RecipeGraph) {
+      controller?.abort()
+      const signal = (controller = new AbortController()).signal
+
+      const { terminals, machines, extractors, power } = planTotals(graph)
+      panel.hidden = graph.nodes.size === 0
+      inputList.replaceChildren(
+        ...terminals.map(input =>
+          panelRow(
+            input,
+            t(input.name) ?? input.name,
+            `${numberFormat.format(input.amount)}/s`,
+            signal,
+          ),
+        ),
+      )
+      machineList.replaceChildren(
+        ...machines.map(({ machine, count }) =>
+          panelRow(
+            machineItem(machine),
+            machineName(machine),
+            numberFormat.format(count),
+            signal,
+          ),
+        ),
+        ...extractors.map(({ extractor, count }) =>
+          panelRow(
+            extractorItem(extractor),
+            extractorName(extractor),
+            numberFormat.format(count),
+            signal,
+          ),
+        ),
+      )
+      // Stone and steel furnaces burn fuel, they don't add to the electricity
+      powerList.replaceChildren(
+        panelRow(undefined, "Electricity", formatPower(power.electric), signal),
+        ...(power.fuel > 0
+          ? [panelRow(undefined, "Fuel", formatPower(power.fuel), signal)]
+          : []),
+      )
+    },
+  }
+}
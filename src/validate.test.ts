@@ -0,0 +1,50 @@
+import "@malien/iterator-polyfill"
+import { describe, expect, test } from "vitest"
+import { NodeID, RecipeGraph, initialGraph } from "./graph"
+import { recipeMap } from "./recipe"
+import { validateGraph } from "./validate"
+
+function plan(name: string) {
+  const recipe = recipeMap.get(name)
+  if (!recipe) throw new Error(`Missing recipe ${name}`)
+  const graph = initialGraph(recipe)
+  if (graph.err) throw graph.error
+  return graph.value
+}
+
+/** Adds an edge the way merging a node into its own consumer would */
+function withEdge(graph: RecipeGraph, from: NodeID, to: NodeID): RecipeGraph {
+  const downEdges = new Map(graph.downEdges)
+  downEdges.set(from, [...(downEdges.get(from) ?? []), to])
+  const upEdges = new Map(graph.upEdges)
+  upEdges.set(to, [...(upEdges.get(to) ?? []), from])
+  const feedbackEdges = new Map(graph.feedbackEdges)
+  feedbackEdges.set(from, [...(feedbackEdges.get(from) ?? []), to])
+  return { ...graph, downEdges, upEdges, feedbackEdges }
+}
+
+describe("validateGraph", () => {
+  test("accepts a freshly planned recipe", () => {
+    expect(validateGraph(plan("plastic-bar"))).toEqual([])
+  })
+
+  test("rejects edges from a child the parent has no use for", () => {
+    // Plastic is not an ingredient of plastic
+    const root = 0 as NodeID
+    const graph = withEdge(plan("plastic-bar"), root, root)
+    expect(validateGraph(graph)).toContainEqual({
+      kind: "unneeded-edge",
+      from: root,
+      to: root,
+    })
+  })
+
+  test("accepts a recipe that feeds itself", () => {
+    const root = 0 as NodeID
+    const graph = plan("kovarex-enrichment-process")
+    const violations = validateGraph(withEdge(graph, root, root))
+    expect(violations.filter(({ kind }) => kind === "unneeded-edge")).toEqual(
+      [],
+    )
+  })
+})
@@ -0,0 +1,246 @@
+import {
+  NodeID,
+  RecipeGraph,
+  RecipeNode,
+  isFeedbackEdge,
+  isLeaf,
+} from "./graph"
+import { Item, itemEq } from "./recipe"
+
+export type GraphViolation =
+  | { kind: "mismatched-id"; key: NodeID; node: NodeID }
+  | { kind: "unissued-id"; node: NodeID; issued: number }
+  | {
+      kind: "dangling-entry"
+      map: "downEdges" | "upEdges" | "nodeDepth" | "supplyShares" | "positions"
+      node: NodeID
+    }
+  | { kind: "dangling-edge"; from: NodeID; to: NodeID }
+  | { kind: "duplicate-edge"; from: NodeID; to: NodeID }
+  | { kind: "one-way-edge"; from: NodeID; to: NodeID; missing: "up" | "down" }
+  /** The child puts out nothing the parent's recipe takes in */
+  | { kind: "unneeded-edge"; from: NodeID; to: NodeID }
+  | { kind: "terminal-with-children"; node: NodeID }
+  | { kind: "missing-down-edges"; node: NodeID }
+  | { kind: "orphan"; node: NodeID }
+  | { kind: "unreachable"; node: NodeID }
+  | { kind: "missing-depth"; node: NodeID }
+  | { kind: "wrong-depth"; node: NodeID; depth: number; expected: number }
+  | {
+      kind: "wrong-level-count"
+      level: number
+      count: number
+      expected: number
+    }
+  | { kind: "stale-feedback-edge"; from: NodeID; to: NodeID }
+  | { kind: "cycle"; nodes: NodeID[] }
+  | { kind: "invalid-rate"; node: NodeID; rate: number }
+  | { kind: "invalid-share"; consumer: NodeID; supplier: NodeID; share: number }
+
+/**
+ * Checks every invariant the graph operations are supposed to keep: the maps
+ * agree with each other, edges go both ways and carry an item from child to
+ * parent, depths follow from the edges, level counts follow from the depths,
+ * and every node is reachable from a root. Returns every violation found, an empty list for a consistent graph.
+ */
+export function validateGraph(graph: RecipeGraph): GraphViolation[] {
+  const violations: GraphViolation[] = []
+
+  for (const [key, node] of graph.nodes) {
+    if (key !== node.id)
+      violations.push({ kind: "mismatched-id", key, node: node.id })
+    // The allocator would hand the id out again
+    if (!Number.isInteger(key) || key < 0 || key >= graph.nodesIssued)
+      violations.push({
+        kind: "unissued-id",
+        node: key,
+        issued: graph.nodesIssued,
+      })
+
+    const rate = isLeaf(node) ? node.requiredAmount : node.desiredProduction
+    if (!Number.isFinite(rate) || rate < 0)
+      violations.push({ kind: "invalid-rate", node: key, rate })
+
+    const children = graph.downEdges.get(key)
+    if (isLeaf(node)) {
+      if (children?.length)
+        violations.push({ kind: "terminal-with-children", node: key })
+    } else if (!children) {
+      violations.push({ kind: "missing-down-edges", node: key })
+    }
+
+    if (node.type !== "root" && !graph.upEdges.get(key)?.length)
+      violations.push({ kind: "orphan", node: key })
+  }
+
+  for (const map of [
+    "downEdges",
+    "upEdges",
+    "nodeDepth",
+    "supplyShares",
+    "positions",
+  ] as const) {
+    for (const node of graph[map].keys()) {
+      if (!graph.nodes.has(node))
+        violations.push({ kind: "dangling-entry", map, node })
+    }
+  }
+
+  violations.push(...edgeViolations(graph))
+  violations.push(...depthViolations(graph))
+
+  for (const [consumer, shares] of graph.supplyShares) {
+    for (const { supplier, share } of shares) {
+      if (!Number.isFinite(share) || share < 0)
+        violations.push({ kind: "invalid-share", consumer, supplier, share })
+    }
+  }
+
+  const reachable = new Set<NodeID>()
+  const stack = Array.from(graph.nodes.values())
+    .filter(node => node.type === "root")
+    .map(node => node.id)
+  while (true) {
+    const id = stack.pop()
+    if (id === undefined) break
+    if (reachable.has(id)) continue
+    reachable.add(id)
+    stack.push(...(graph.downEdges.get(id) ?? []))
+  }
+  for (const id of graph.nodes.keys()) {
+    if (!reachable.has(id)) violations.push({ kind: "unreachable", node: id })
+  }
+
+  return violations
+}
+
+function edgeViolations(graph: RecipeGraph) {
+  const violations: GraphViolation[] = []
+
+  for (const [from, children] of graph.downEdges) {
+    const seen = new Set<NodeID>()
+    for (const to of children) {
+      if (seen.has(to)) violations.push({ kind: "duplicate-edge", from, to })
+      seen.add(to)
+      const parent = graph.nodes.get(from)
+      const child = graph.nodes.get(to)
+      if (!child) {
+        violations.push({ kind: "dangling-edge", from, to })
+        continue
+      }
+      if (!graph.upEdges.get(to)?.includes(from)) {
+        violations.push({ kind: "one-way-edge", from, to, missing: "up" })
+      }
+      if (
+        parent &&
+        !isLeaf(parent) &&
+        !outputs(child).some(item =>
+          parent.recipe.ingredients.some(ingredient =>
+            itemEq(ingredient, item),
+          ),
+        )
+      ) {
+        violations.push({ kind: "unneeded-edge", from, to })
+      }
+    }
+  }
+
+  for (const [to, parents] of graph.upEdges) {
+    const seen = new Set<NodeID>()
+    for (const from of parents) {
+      if (seen.has(from)) violations.push({ kind: "duplicate-edge", from, to })
+      seen.add(from)
+      if (!graph.nodes.has(from)) {
+        violations.push({ kind: "dangling-edge", from, to })
+      } else if (!graph.downEdges.get(from)?.includes(to)) {
+        violations.push({ kind: "one-way-edge", from, to, missing: "down" })
+      }
+    }
+  }
+
+  for (const [from, targets] of graph.feedbackEdges) {
+    for (const to of targets) {
+      if (!graph.downEdges.get(from)?.includes(to))
+        violations.push({ kind: "stale-feedback-edge", from, to })
+    }
+  }
+
+  return violations
+}
+
+function outputs(node: RecipeNode): Item[] {
+  return isLeaf(node) ? [node.item] : node.recipe.results
+}
+
+/**
+ * Depth of a node is one greater than the deepest of its parents, feedback
+ * edges aside, which is only well defined when the rest of the edges form no
+ * cycle.
+ */
+function depthViolations(graph: RecipeGraph) {
+  const violations: GraphViolation[] = []
+
+  const pendingParents = new Map<NodeID, number>()
+  const queue: NodeID[] = []
+  for (const id of graph.nodes.keys()) {
+    const parents = forwardParents(graph, id).length
+    pendingParents.set(id, parents)
+    if (parents === 0) queue.push(id)
+  }
+  const expectedDepth = new Map<NodeID, number>()
+  while (true) {
+    const id = queue.shift()
+    if (id === undefined) break
+    let depth = 0
+    for (const parentId of forwardParents(graph, id)) {
+      depth = Math.max(depth, (expectedDepth.get(parentId) ?? 0) + 1)
+    }
+    expectedDepth.set(id, depth)
+
+    for (const childId of graph.downEdges.get(id) ?? []) {
+      if (isFeedbackEdge(graph, id, childId)) continue
+      const pending = pendingParents.get(childId)
+      if (pending === undefined) continue
+      pendingParents.set(childId, pending - 1)
+      if (pending === 1) queue.push(childId)
+    }
+  }
+
+  const cycle = Array.from(graph.nodes.keys()).filter(
+    id => !expectedDepth.has(id),
+  )
+  if (cycle.length > 0) violations.push({ kind: "cycle", nodes: cycle })
+
+  const expectedCounts: number[] = []
+  for (const id of graph.nodes.keys()) {
+    const depth = graph.nodeDepth.get(id)
+    if (depth === undefined) {
+      violations.push({ kind: "missing-depth", node: id })
+      continue
+    }
+    while (expectedCounts.length <= depth) expectedCounts.push(0)
+    expectedCounts[depth] += 1
+
+    const expected = expectedDepth.get(id)
+    if (expected !== undefined && expected !== depth)
+      violations.push({ kind: "wrong-depth", node: id, depth, expected })
+  }
+
+  // Levels past the deepest node may linger with nothing on them
+  const levels = Math.max(expectedCounts.length, graph.nodesOnLevel.length)
+  for (let level = 0; level < levels; level++) {
+    const count = graph.nodesOnLevel[level] ?? 0
+    const expected = expectedCounts[level] ?? 0
+    if (count !== expected)
+      violations.push({ kind: "wrong-level-count", level, count, expected })
+  }
+
+  return violations
+}
+
+function forwardParents(graph: RecipeGraph, id: NodeID) {
+  return (graph.upEdges.get(id) ?? []).filter(
+    parentId =>
+      graph.nodes.has(parentId) && !isFeedbackEdge(graph, parentId, id),
+  )
+}
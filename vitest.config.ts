@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    // Recipes are exposed on `window` in development, tests included
+    environment: "happy-dom",
+  },
+})